@@ -1,9 +1,198 @@
-self.addEventListener('install', () => {
+// Bump a cache's version to drop what it holds on the next activate
+const SHELL_CACHE = 'shell-v2';
+const STATIC_CACHE = 'static-v1';
+const TILE_CACHE = 'tiles-v1';
+const AUDIO_CACHE = 'audio-v1';
+const DATA_CACHE = 'data-v1';
+const CACHES = [SHELL_CACHE, STATIC_CACHE, TILE_CACHE, AUDIO_CACHE, DATA_CACHE];
+
+const SHELL_URLS = ['/', '/list', '/map', '/manifest.json', '/icon-192.png', '/icon-512.png', '/apple-touch-icon.png'];
+const TILE_HOSTS = ['tile.openstreetmap.org', 'global.ssl.fastly.net'];
+// Every deploy renames its chunks, so older builds' fall out as the current one's are cached
+const MAX_STATIC = 300;
+const MAX_TILES = 1000;
+// Cross-origin clips are opaque, and browsers count each against quota at a padded size
+const MAX_AUDIO = 50;
+const MAX_DATA = 50;
+
+self.addEventListener('install', (event) => {
+  // One page failing to load shouldn't keep the worker from installing
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then((cache) =>
+      Promise.all(SHELL_URLS.map((url) => cache.add(url).catch(() => undefined)))
+    )
+  );
   self.skipWaiting();
 });
 
 self.addEventListener('activate', (event) => {
-  event.waitUntil(self.clients.claim());
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(names.filter((name) => !CACHES.includes(name)).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Drops the oldest entries past maxEntries; keys come back in insertion order
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+}
+
+// Trimming lists every key, too slow to do on each tile. A cache is trimmed on its first
+// put after the worker starts and every TRIM_INTERVAL puts after, so it can run that many
+// entries over its cap.
+const TRIM_INTERVAL = 20;
+const putsSinceStart = new Map();
+
+function trimAfterPut(cacheName, maxEntries) {
+  const puts = putsSinceStart.get(cacheName) || 0;
+  putsSinceStart.set(cacheName, puts + 1);
+  return puts % TRIM_INTERVAL === 0 ? trimCache(cacheName, maxEntries) : Promise.resolve();
+}
+
+// Pages and incident data: the network when there is one, else the last copy
+async function networkFirst(request, cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+      if (maxEntries) trimAfterPut(cacheName, maxEntries);
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreVary: true });
+    if (cached) return cached;
+    // Any page of the app can boot from the shell
+    if (request.mode === 'navigate') {
+      const shell = await cache.match('/');
+      if (shell) return shell;
+    }
+    throw error;
+  }
+}
+
+// Build assets are content-hashed, so a cached copy is always current
+async function cacheFirst(request, cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+    if (maxEntries) trimAfterPut(cacheName, maxEntries);
+  }
+  return response;
+}
+
+// Build assets a page loaded before this worker controlled it, which it never saw fetched
+async function cacheStaticAssets(urls) {
+  const cache = await caches.open(STATIC_CACHE);
+  const assets = urls
+    .map((url) => new URL(url))
+    .filter((url) => url.origin === self.location.origin && url.pathname.startsWith('/_next/static/'));
+
+  await Promise.all(assets.map(async (url) => {
+    if (await cache.match(url.href)) return;
+    await cache.add(url.href).catch(() => undefined);
+  }));
+  await trimCache(STATIC_CACHE, MAX_STATIC);
+}
+
+// Answers a media range request from a whole cached clip
+async function toRangeResponse(request, response) {
+  const match = /^bytes=(\d+)-(\d*)$/.exec(request.headers.get('range') || '');
+  if (!match || response.type === 'opaque') return response;
+
+  const body = await response.arrayBuffer();
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), body.byteLength - 1) : body.byteLength - 1;
+
+  return new Response(body.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Content-Type': response.headers.get('Content-Type') || 'audio/mpeg',
+      'Content-Range': `bytes ${start}-${end}/${body.byteLength}`,
+      'Content-Length': String(end - start + 1),
+    },
+  });
+}
+
+// Clips never change once recorded. Media elements ask for byte ranges, which can't be
+// cached, so the whole clip is fetched and cached under its URL instead.
+async function cacheAudio(request) {
+  const cache = await caches.open(AUDIO_CACHE);
+  const cached = await cache.match(request.url);
+  if (cached) return toRangeResponse(request, cached);
+
+  const response = await fetch(request.url, { mode: request.mode === 'cors' ? 'cors' : 'no-cors' });
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(request.url, response.clone());
+    trimAfterPut(AUDIO_CACHE, MAX_AUDIO);
+  }
+  return toRangeResponse(request, response);
+}
+
+// Map tiles: the cached tile right away, refreshed in the background
+async function staleWhileRevalidate(event, cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(event.request);
+
+  const refresh = fetch(event.request).then(async (response) => {
+    if (response.ok) {
+      await cache.put(event.request, response.clone());
+      await trimAfterPut(cacheName, maxEntries);
+    }
+    return response;
+  });
+
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+}
+
+function isAudio(request, url) {
+  return request.destination === 'audio' || /\.(mp3|m4a|wav|ogg)$/i.test(url.pathname);
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (TILE_HOSTS.some((host) => url.hostname.endsWith(host))) {
+    event.respondWith(staleWhileRevalidate(event, TILE_CACHE, MAX_TILES));
+    return;
+  }
+
+  if (isAudio(request, url)) {
+    event.respondWith(cacheAudio(request));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE));
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request, STATIC_CACHE, MAX_STATIC));
+  } else if (url.pathname === '/api/incidents') {
+    event.respondWith(networkFirst(request, DATA_CACHE, MAX_DATA));
+  } else if (SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(networkFirst(request, SHELL_CACHE));
+  }
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'CACHE_ASSETS' && Array.isArray(event.data.urls)) {
+    event.waitUntil(cacheStaticAssets(event.data.urls));
+  }
 });
 
 self.addEventListener('push', (event) => {
@@ -0,0 +1,267 @@
+/**
+ * Regression harness for the shared dispatch parser.
+ *
+ * Runs every fixture in corpus.json through the rule-based parser and through the AI
+ * parser backed by the fixture's recorded LLM response, then reports field-level
+ * precision/recall for callType, units, channels and address. Scores are compared with
+ * baseline.json so a new rewrite rule that breaks an existing transcript fails the run.
+ *
+ *   pnpm parser:check                    # compare against baseline.json
+ *   pnpm parser:check --verbose          # also list every mismatching fixture
+ *   pnpm parser:check --update-baseline  # accept the current scores
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  parseDispatchCall,
+  parseDispatchCallWithAI,
+  preprocessTranscript,
+  type LlmProvider,
+  type ParsedDispatchCall,
+} from '@shared/dispatch-parser';
+
+interface Fixture {
+  id: string;
+  transcript: string;
+  // Expected preprocessTranscript() output, for fixtures that pin a rewrite rule.
+  preprocessed?: string;
+  expected: {
+    callType: string | null;
+    units: string[];
+    channels: string[];
+    address: string | null;
+  };
+  // What the LLM returned for this transcript when it was recorded. Strings are replayed
+  // verbatim, e.g. to cover responses wrapped in a markdown code fence.
+  llmResponse: Record<string, unknown> | string;
+}
+
+type Field = 'callType' | 'units' | 'channels' | 'address';
+type Backend = 'rules' | 'ai';
+
+interface FieldScore {
+  truePositives: number;
+  predicted: number;
+  expected: number;
+}
+
+interface Scores {
+  precision: number;
+  recall: number;
+}
+
+type Baseline = Record<Backend, Record<Field, Scores>> & { preprocessExact: number };
+
+const FIELDS: Field[] = ['callType', 'units', 'channels', 'address'];
+const BACKENDS: Backend[] = ['rules', 'ai'];
+// Allows for float noise when comparing against the stored baseline.
+const TOLERANCE = 0.0001;
+
+const corpusDir = __dirname;
+const baselinePath = join(corpusDir, 'baseline.json');
+const args = new Set(process.argv.slice(2));
+const verbose = args.has('--verbose');
+const updateBaseline = args.has('--update-baseline');
+
+function normalizeText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[.,]/g, '')
+    .replace(/\s*-\s*/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Units are compared without spaces or dashes so "Engine 33", "Engine33" and "SR-20" vs
+// "SR20" are treated as the same apparatus.
+function normalizeUnit(value: string): string {
+  return value.toLowerCase().replace(/[\s-]/g, '');
+}
+
+function emptyScore(): FieldScore {
+  return { truePositives: 0, predicted: 0, expected: 0 };
+}
+
+function scoreScalar(score: FieldScore, actual: string | null, expected: string | null) {
+  if (actual) score.predicted++;
+  if (expected) score.expected++;
+  if (actual && expected && normalizeText(actual) === normalizeText(expected)) {
+    score.truePositives++;
+    return true;
+  }
+  return !actual && !expected;
+}
+
+function scoreList(
+  score: FieldScore,
+  actual: string[],
+  expected: string[],
+  normalize: (value: string) => string
+) {
+  const actualSet = new Set(actual.map(normalize));
+  const expectedSet = new Set(expected.map(normalize));
+  let matches = 0;
+  for (const value of actualSet) {
+    if (expectedSet.has(value)) matches++;
+  }
+  score.truePositives += matches;
+  score.predicted += actualSet.size;
+  score.expected += expectedSet.size;
+  return matches === actualSet.size && matches === expectedSet.size;
+}
+
+function toScores(score: FieldScore): Scores {
+  return {
+    precision: score.predicted === 0 ? 1 : score.truePositives / score.predicted,
+    recall: score.expected === 0 ? 1 : score.truePositives / score.expected,
+  };
+}
+
+function createRecordedProvider(fixture: Fixture): LlmProvider {
+  return {
+    name: 'recorded',
+    async complete() {
+      return typeof fixture.llmResponse === 'string'
+        ? fixture.llmResponse
+        : JSON.stringify(fixture.llmResponse);
+    },
+  };
+}
+
+async function runBackend(backend: Backend, fixture: Fixture): Promise<ParsedDispatchCall> {
+  if (backend === 'rules') {
+    return parseDispatchCall(fixture.transcript);
+  }
+  return parseDispatchCallWithAI(fixture.transcript, createRecordedProvider(fixture));
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`.padStart(7);
+}
+
+async function main() {
+  const corpus: Fixture[] = JSON.parse(readFileSync(join(corpusDir, 'corpus.json'), 'utf8'));
+  const mismatches: string[] = [];
+  const totals = {} as Record<Backend, Record<Field, FieldScore>>;
+
+  // The parser logs every step; keep the report readable.
+  const log = console.log;
+  console.log = () => {};
+
+  let preprocessChecked = 0;
+  let preprocessPassed = 0;
+
+  try {
+    for (const backend of BACKENDS) {
+      totals[backend] = {
+        callType: emptyScore(),
+        units: emptyScore(),
+        channels: emptyScore(),
+        address: emptyScore(),
+      };
+
+      for (const fixture of corpus) {
+        const result = await runBackend(backend, fixture);
+        const score = totals[backend];
+        const { expected } = fixture;
+
+        const fieldResults: Record<Field, boolean> = {
+          callType: scoreScalar(score.callType, result.callType, expected.callType),
+          units: scoreList(score.units, result.units, expected.units, normalizeUnit),
+          channels: scoreList(score.channels, result.channels, expected.channels, normalizeText),
+          address: scoreScalar(score.address, result.address, expected.address),
+        };
+
+        for (const field of FIELDS) {
+          if (!fieldResults[field]) {
+            mismatches.push(
+              `[${backend}] ${fixture.id} ${field}: expected ${JSON.stringify(expected[field])}, got ${JSON.stringify(result[field])}`
+            );
+          }
+        }
+      }
+    }
+
+    for (const fixture of corpus) {
+      if (fixture.preprocessed === undefined) continue;
+      preprocessChecked++;
+      const actual = preprocessTranscript(fixture.transcript);
+      if (actual === fixture.preprocessed) {
+        preprocessPassed++;
+      } else {
+        mismatches.push(
+          `[preprocess] ${fixture.id}: expected ${JSON.stringify(fixture.preprocessed)}, got ${JSON.stringify(actual)}`
+        );
+      }
+    }
+  } finally {
+    console.log = log;
+  }
+
+  const current = { preprocessExact: preprocessChecked === 0 ? 1 : preprocessPassed / preprocessChecked } as Baseline;
+  for (const backend of BACKENDS) {
+    current[backend] = {} as Record<Field, Scores>;
+    for (const field of FIELDS) {
+      current[backend][field] = toScores(totals[backend][field]);
+    }
+  }
+
+  console.log(`Dispatch parser regression: ${corpus.length} fixtures\n`);
+  console.log('backend   field      precision  recall');
+  for (const backend of BACKENDS) {
+    for (const field of FIELDS) {
+      const { precision, recall } = current[backend][field];
+      console.log(`${backend.padEnd(9)} ${field.padEnd(10)} ${formatPercent(precision)}  ${formatPercent(recall)}`);
+    }
+  }
+  console.log(`\npreprocessTranscript exact matches: ${preprocessPassed}/${preprocessChecked}`);
+
+  if (verbose && mismatches.length > 0) {
+    console.log('\nMismatches:');
+    for (const mismatch of mismatches) {
+      console.log(`  ${mismatch}`);
+    }
+  }
+
+  if (updateBaseline) {
+    writeFileSync(baselinePath, JSON.stringify(current, null, 2) + '\n');
+    console.log(`\n✅ Baseline updated: ${baselinePath}`);
+    return;
+  }
+
+  const baseline: Baseline = JSON.parse(readFileSync(baselinePath, 'utf8'));
+  const regressions: string[] = [];
+
+  if (current.preprocessExact + TOLERANCE < baseline.preprocessExact) {
+    regressions.push(`preprocessTranscript exact ${formatPercent(baseline.preprocessExact).trim()} → ${formatPercent(current.preprocessExact).trim()}`);
+  }
+  for (const backend of BACKENDS) {
+    for (const field of FIELDS) {
+      for (const metric of ['precision', 'recall'] as const) {
+        const before = baseline[backend][field][metric];
+        const after = current[backend][field][metric];
+        if (after + TOLERANCE < before) {
+          regressions.push(`${backend} ${field} ${metric} ${formatPercent(before).trim()} → ${formatPercent(after).trim()}`);
+        }
+      }
+    }
+  }
+
+  if (regressions.length > 0) {
+    console.log('\n❌ Regressions against baseline.json:');
+    for (const regression of regressions) {
+      console.log(`  ${regression}`);
+    }
+    if (!verbose) {
+      console.log('\nRe-run with --verbose to see the failing fixtures.');
+    }
+    process.exit(1);
+  }
+
+  console.log('\n✅ No regressions against baseline.json');
+}
+
+main().catch((error) => {
+  console.error('Parser regression run failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const STATUSES = ['pending', 'dead', 'discarded'];
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+function isAuthorized(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  return authHeader === `Bearer ${process.env.SUPABASE_SERVICE_ROLE_KEY}`;
+}
+
+// GET /api/admin/failed-calls?status=dead&limit=50
+// Lists dead-letter rows, newest failures first. status=all returns every row.
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status') || 'all';
+  const limit = Math.min(Math.max(Number(searchParams.get('limit')) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  if (status !== 'all' && !STATUSES.includes(status)) {
+    return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+  }
+
+  let query = supabase
+    .from('failed_calls')
+    .select('id, external_id, call, stage, error, attempts, status, next_attempt_at, created_at, updated_at')
+    .order('updated_at', { ascending: false })
+    .limit(limit);
+
+  if (status !== 'all') {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Failed to fetch failed calls:', error);
+    return NextResponse.json({ error: 'Failed to fetch failed calls' }, { status: 500 });
+  }
+
+  return NextResponse.json({ failedCalls: data });
+}
+
+// POST /api/admin/failed-calls { "action": "retry" | "discard", "ids": ["<uuid>", ...] }
+// Retry puts the rows back in the queue for the next worker run; discard keeps them for
+// reference but stops any further attempts.
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { action, ids } = await request.json();
+
+    if (action !== 'retry' && action !== 'discard') {
+      return NextResponse.json({ error: 'action must be "retry" or "discard"' }, { status: 400 });
+    }
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return NextResponse.json({ error: 'ids must be a non-empty array' }, { status: 400 });
+    }
+
+    const now = new Date().toISOString();
+    const update = action === 'retry'
+      ? { status: 'pending', next_attempt_at: now, updated_at: now }
+      : { status: 'discarded', updated_at: now };
+
+    const { data, error } = await supabase
+      .from('failed_calls')
+      .update(update)
+      .in('id', ids)
+      .select('id');
+
+    if (error) {
+      console.error(`Failed to ${action} failed calls:`, error);
+      return NextResponse.json({ error: `Failed to ${action} failed calls` }, { status: 500 });
+    }
+
+    return NextResponse.json({ action, updated: data?.length ?? 0 });
+  } catch (err) {
+    console.error('Failed calls admin error:', err);
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { INCIDENT_SELECT, SupabaseIncident } from '@/lib/supabase';
+
+// Incidents are public; the anon key keeps this route under the same RLS as the browser
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const DEFAULT_LIMIT = 200;
+// One under search_incidents' cap, which has to fit the extra row asked for below
+const MAX_LIMIT = 999;
+
+function parseList(value: string | null): string[] | null {
+  const items = value?.split(',').map((item) => item.trim()).filter(Boolean) ?? [];
+  return items.length > 0 ? items : null;
+}
+
+function parseDate(value: string | null): string | null | undefined {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// GET /api/incidents?start=2025-01-01T06:00:00Z&end=...&status=ACTIVE&search=fire&agency=...
+//   &types=fire,medical&units=Engine 3,Medic 5&days=0,6&staging=true&bbox=west,south,east,north
+//   &tz=America/Chicago&cursor=<nextCursor>&limit=200
+// Incidents matching the list filters, newest first, as keyset pages: pass the previous
+// page's nextCursor to get the one after it.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const limit = Math.min(Math.max(Number(searchParams.get('limit')) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  const start = parseDate(searchParams.get('start'));
+  const end = parseDate(searchParams.get('end'));
+  if (start === undefined || end === undefined) {
+    return NextResponse.json({ error: 'Invalid start or end' }, { status: 400 });
+  }
+
+  const days = parseList(searchParams.get('days'))?.map(Number) ?? null;
+  if (days?.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    return NextResponse.json({ error: 'Invalid days' }, { status: 400 });
+  }
+
+  const bbox = parseList(searchParams.get('bbox'))?.map(Number) ?? null;
+  if (bbox && (bbox.length !== 4 || bbox.some(isNaN))) {
+    return NextResponse.json({ error: 'Invalid bbox, expected west,south,east,north' }, { status: 400 });
+  }
+
+  // The cursor is the timestamp and id of the last incident on the previous page
+  let before: { timestamp: string; id: string } | null = null;
+  const cursor = searchParams.get('cursor');
+  if (cursor) {
+    const [timestamp, id] = cursor.split(',');
+    // Passed through as is: a Date would drop the microseconds Postgres compares on
+    if (!timestamp || isNaN(Date.parse(timestamp)) || !id) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+    before = { timestamp, id };
+  }
+
+  // One extra row tells whether there is another page
+  const { data, error } = await supabase
+    .rpc('search_incidents', {
+      p_start: start,
+      p_end: end,
+      p_status: searchParams.get('status') || 'ALL',
+      p_search: searchParams.get('search'),
+      p_agency: searchParams.get('agency'),
+      p_units: parseList(searchParams.get('units')),
+      p_incident_types: parseList(searchParams.get('types')),
+      p_days_of_week: days,
+      p_staging_only: searchParams.get('staging') === 'true',
+      p_min_lng: bbox?.[0] ?? null,
+      p_min_lat: bbox?.[1] ?? null,
+      p_max_lng: bbox?.[2] ?? null,
+      p_max_lat: bbox?.[3] ?? null,
+      p_time_zone: searchParams.get('tz') || 'America/Chicago',
+      p_before_timestamp: before?.timestamp ?? null,
+      p_before_id: before?.id ?? null,
+      p_limit: limit + 1,
+    })
+    .select(INCIDENT_SELECT);
+
+  if (error) {
+    console.error('Failed to search incidents:', error);
+    return NextResponse.json({ error: 'Failed to search incidents' }, { status: 500 });
+  }
+
+  const rows = (data ?? []) as unknown as SupabaseIncident[];
+  const incidents = rows.slice(0, limit);
+  const last = incidents[incidents.length - 1];
+
+  return NextResponse.json({
+    incidents,
+    nextCursor: rows.length > limit && last ? `${last.timestamp},${last.id}` : null,
+  });
+}
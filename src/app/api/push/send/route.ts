@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import webPush from 'web-push';
+import { normalizeUnits } from '@shared/unit-names';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -28,6 +29,7 @@ interface PushSubscriptionRow {
   notify_call_types: string[];
   notify_units: string[];
   notify_incident_types: string[];
+  notify_escalations: boolean;
 }
 
 interface IncidentPayload {
@@ -38,9 +40,17 @@ interface IncidentPayload {
   incident_type: string | null;
   external_id: string;
   audio_url?: string;
+  alarm_level?: number | null;
+  // Set when a later transmission raised the incident's alarm level
+  escalation?: { from_level: number | null; to_level: number };
 }
 
+const ALARM_LABELS = ['', 'First Alarm', 'Second Alarm', 'Third Alarm', 'Fourth Alarm', 'Fifth Alarm'];
+
 function subscriptionMatchesIncident(sub: PushSubscriptionRow, incident: IncidentPayload): boolean {
+  // Escalations are their own opt-in trigger, whatever the other filters say.
+  if (incident.escalation) return sub.notify_escalations;
+
   if (sub.notify_all_calls) return true;
 
   if (sub.notify_incident_types.length > 0 && incident.incident_type) {
@@ -55,11 +65,9 @@ function subscriptionMatchesIncident(sub: PushSubscriptionRow, incident: Inciden
   }
 
   if (sub.notify_units.length > 0 && incident.units?.length > 0) {
-    const matches = incident.units.some((unit) =>
-      sub.notify_units.some((nu) =>
-        unit.toLowerCase() === nu.toLowerCase()
-      )
-    );
+    // "E3" in a subscription matches "Engine 3" on an incident
+    const wanted = new Set(normalizeUnits(sub.notify_units).map((unit) => unit.toLowerCase()));
+    const matches = normalizeUnits(incident.units).some((unit) => wanted.has(unit.toLowerCase()));
     if (matches) return true;
   }
 
@@ -111,7 +119,9 @@ export async function POST(request: NextRequest) {
       : null;
     const units = incident.units?.length ? incident.units.join(', ') : null;
 
-    const title = callType || 'New Incident';
+    const title = incident.escalation
+      ? `Upgraded to ${ALARM_LABELS[incident.escalation.to_level]}${callType ? ` · ${callType}` : ''}`
+      : callType || 'New Incident';
     const body = [address, units ? `Units: ${units}` : null]
       .filter(Boolean)
       .join('\n');
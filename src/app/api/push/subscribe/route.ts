@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { normalizeUnits } from '@shared/unit-names';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -43,8 +44,9 @@ export async function POST(request: NextRequest) {
         keys_auth: subscription.keys.auth,
         notify_all_calls: filters?.notifyAllCalls ?? true,
         notify_call_types: filters?.notifyCallTypes ?? [],
-        notify_units: filters?.notifyUnits ?? [],
+        notify_units: normalizeUnits(filters?.notifyUnits ?? []),
         notify_incident_types: filters?.notifyIncidentTypes ?? [],
+        notify_escalations: filters?.notifyEscalations ?? false,
         updated_at: new Date().toISOString(),
       },
       { onConflict: 'endpoint' }
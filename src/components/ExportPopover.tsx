@@ -51,6 +51,8 @@ function exportToCSV(incidents: FireIncident[]): string {
     'channels',
     'agency',
     'status',
+    'lifecycle_status',
+    'alarm_level',
     'incident_type',
     'estimated_resolution_minutes',
     'audio_url',
@@ -67,6 +69,8 @@ function exportToCSV(incidents: FireIncident[]): string {
     escapeCSVField(incident.channels?.join(', ')),
     escapeCSVField(incident.agency),
     escapeCSVField(incident.traffic_report_status),
+    escapeCSVField(incident.lifecycleStatus),
+    escapeCSVField(incident.alarmLevel?.toString()),
     escapeCSVField(incident.incidentType),
     escapeCSVField(incident.estimatedResolutionMinutes?.toString()),
     escapeCSVField(incident.audioUrl),
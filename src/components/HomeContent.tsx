@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useCallback, useEffect, useMemo } from "react";
+import { format } from "date-fns";
 import {
   ResizablePanelGroup,
   ResizablePanel,
@@ -12,25 +13,32 @@ import { IncidentsList } from "@/components/IncidentsList";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { SettingsDialog } from "@/components/SettingsDialog";
 import { StatisticsDashboard } from "@/components/StatisticsDashboard";
+import { UnitStatusBoard } from "@/components/UnitStatusBoard";
 import { Tabs as HeaderTabs, TabsList as HeaderTabsList, TabsTrigger as HeaderTabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { Radio, ExternalLink, Volume2, VolumeX } from "lucide-react";
+import { Radio, ExternalLink, Volume2, VolumeX, WifiOff } from "lucide-react";
 import { CallBanner } from "@/components/CallBanner";
-import { useFireIncidents, removeUnitsFromOlderIncidents } from "@/lib/api";
+import { useFireIncidents, useUnitStatus, removeUnitsFromOlderIncidents } from "@/lib/api";
+import { isIncidentOpen } from "@/lib/incident-status";
 import { useSettings, SettingsProvider } from "@/lib/settings";
 import { useMediaQuery } from "@/lib/hooks/useMediaQuery";
+import { useOnlineStatus } from "@/lib/hooks/useOnlineStatus";
+import { useOfflineAssets } from "@/lib/hooks/useOfflineAssets";
 import { useKeyboardShortcuts } from "@/lib/hooks/useKeyboardShortcuts";
-import { FireIncident } from "@/types/incident";
+import { FireIncident, IncidentBounds } from "@/types/incident";
 import { toast } from "sonner";
 import { KeyboardShortcutsDialog } from "@/components/KeyboardShortcutsDialog";
 
 export type HomeMode = 'default' | 'list-only' | 'map-only';
 
+type HomeView = 'incidents' | 'units' | 'statistics';
+
 function HomeContent({ mode = 'default' }: { mode?: HomeMode }) {
   const {
     incidents,
@@ -41,9 +49,16 @@ function HomeContent({ mode = 'default' }: { mode?: HomeMode }) {
     isInitialFetchComplete,
     refetch,
     resetStorage,
+    loadIncidents,
+    loadMoreIncidents,
+    hasMoreIncidents,
+    isLoadingMoreIncidents,
   } = useFireIncidents();
+  const { units, isLoading: isLoadingUnits } = useUnitStatus();
   const { settings, updateSettings } = useSettings();
   const isMobile = useMediaQuery("(max-width: 768px)");
+  const offlineSince = useOnlineStatus();
+  useOfflineAssets();
   const [selectedIncident, setSelectedIncident] = useState<FireIncident | null>(
     null
   );
@@ -60,8 +75,10 @@ function HomeContent({ mode = 'default' }: { mode?: HomeMode }) {
     FireIncident[]
   >([]);
   const [newIncidentIds, setNewIncidentIds] = useState<Set<string>>(new Set());
-  const [view, setView] = useState<'incidents' | 'statistics'>('incidents');
+  const [view, setView] = useState<HomeView>('incidents');
   const [showKeyboardHelp, setShowKeyboardHelp] = useState(false);
+  // Null until a map has shown, so the list's map view filter has nothing to apply yet
+  const [mapBounds, setMapBounds] = useState<IncidentBounds | null>(null);
 
   const finalIncidents = useMemo(() => {
     const idsToFilter = new Set([
@@ -98,6 +115,11 @@ function HomeContent({ mode = 'default' }: { mode?: HomeMode }) {
     [settings.showBanner]
   );
 
+  const handleUnitIncidentSelect = useCallback((incident: FireIncident) => {
+    setSelectedIncident(incident);
+    setView('incidents');
+  }, []);
+
   const handleAudioStateChange = useCallback((playing: boolean) => {
     setIsAudioPlaying(playing);
   }, []);
@@ -175,18 +197,14 @@ function HomeContent({ mode = 'default' }: { mode?: HomeMode }) {
         const hasNoUnits = !incident.units || incident.units.length === 0;
         if (hasNoCallType && hasNoUnits) return false;
       }
-      if (incident.estimatedResolutionMinutes) {
-        const incidentDate = new Date(incident.published_date);
-        const minutesSinceIncident = (now.getTime() - incidentDate.getTime()) / (1000 * 60);
-        if (minutesSinceIncident > incident.estimatedResolutionMinutes) return false;
-      }
+      if (!isIncidentOpen(incident, now)) return false;
       return true;
     });
     const sorted = filtered.sort(
       (a, b) => new Date(b.published_date).getTime() - new Date(a.published_date).getTime()
     );
-    return removeUnitsFromOlderIncidents(sorted);
-  }, [mode, finalIncidents, settings.hideIncompleteIncidents, settings.hideIncidentsWithoutUnitsOrCallType]);
+    return removeUnitsFromOlderIncidents(sorted, units);
+  }, [mode, finalIncidents, units, settings.hideIncompleteIncidents, settings.hideIncidentsWithoutUnitsOrCallType]);
 
   const mapIncidents = mode === 'map-only' ? dynamicFilteredIncidents : displayedIncidents;
 
@@ -270,11 +288,22 @@ function HomeContent({ mode = 'default' }: { mode?: HomeMode }) {
           <p className="text-muted-foreground text-sm hidden md:block">
             Real-time incident tracking
           </p>
+          {offlineSince && (
+            <Badge
+              variant="outline"
+              className="border-amber-500 text-amber-600 dark:text-amber-400 mt-1"
+              title={lastUpdated ? `Showing incidents as of ${format(lastUpdated, "MMM d, h:mm a")}` : "Showing the last incidents loaded"}
+            >
+              <WifiOff />
+              Offline since {format(offlineSince, "h:mm a")}
+            </Badge>
+          )}
         </div>
         {mode === 'default' && (
-          <HeaderTabs value={view} onValueChange={(v) => setView(v as 'incidents' | 'statistics')} className="max-w-xs">
-            <HeaderTabsList className="grid w-full grid-cols-2">
+          <HeaderTabs value={view} onValueChange={(v) => setView(v as HomeView)} className="max-w-sm">
+            <HeaderTabsList className="grid w-full grid-cols-3">
               <HeaderTabsTrigger value="incidents">Incidents</HeaderTabsTrigger>
+              <HeaderTabsTrigger value="units">Units</HeaderTabsTrigger>
               <HeaderTabsTrigger value="statistics">Statistics</HeaderTabsTrigger>
             </HeaderTabsList>
           </HeaderTabs>
@@ -356,6 +385,11 @@ function HomeContent({ mode = 'default' }: { mode?: HomeMode }) {
             lastUpdated={lastUpdated}
             onRefresh={refetch}
             onResetStorage={resetStorage}
+            onFiltersChange={loadIncidents}
+            onLoadMore={loadMoreIncidents}
+            hasMore={hasMoreIncidents}
+            isLoadingMore={isLoadingMoreIncidents}
+            units={units}
             fullWidth
           />
         </div>
@@ -370,6 +404,7 @@ function HomeContent({ mode = 'default' }: { mode?: HomeMode }) {
             selectedIncident={selectedIncident}
             onIncidentSelect={setSelectedIncident}
             newIncidentIds={newIncidentIds}
+            units={units}
           />
         </div>
       );
@@ -380,6 +415,17 @@ function HomeContent({ mode = 'default' }: { mode?: HomeMode }) {
       return <StatisticsDashboard incidents={incidents} />;
     }
 
+    if (view === 'units') {
+      return (
+        <UnitStatusBoard
+          units={units}
+          incidents={incidents}
+          loading={isLoadingUnits}
+          onIncidentSelect={handleUnitIncidentSelect}
+        />
+      );
+    }
+
     if (isMobile) {
       return (
         <Tabs defaultValue="list" className="flex-1 flex flex-col">
@@ -404,6 +450,12 @@ function HomeContent({ mode = 'default' }: { mode?: HomeMode }) {
               lastUpdated={lastUpdated}
               onRefresh={refetch}
               onResetStorage={resetStorage}
+              onFiltersChange={loadIncidents}
+              onLoadMore={loadMoreIncidents}
+              hasMore={hasMoreIncidents}
+              isLoadingMore={isLoadingMoreIncidents}
+              units={units}
+              mapBounds={mapBounds}
             />
           </TabsContent>
           <TabsContent value="map" className="flex-1 m-0 overflow-hidden">
@@ -412,6 +464,8 @@ function HomeContent({ mode = 'default' }: { mode?: HomeMode }) {
               selectedIncident={selectedIncident}
               onIncidentSelect={setSelectedIncident}
               newIncidentIds={newIncidentIds}
+              units={units}
+              onBoundsChange={setMapBounds}
             />
           </TabsContent>
         </Tabs>
@@ -433,6 +487,12 @@ function HomeContent({ mode = 'default' }: { mode?: HomeMode }) {
             lastUpdated={lastUpdated}
             onRefresh={refetch}
             onResetStorage={resetStorage}
+            onFiltersChange={loadIncidents}
+            onLoadMore={loadMoreIncidents}
+            hasMore={hasMoreIncidents}
+            isLoadingMore={isLoadingMoreIncidents}
+            units={units}
+            mapBounds={mapBounds}
           />
         </ResizablePanel>
 
@@ -444,6 +504,8 @@ function HomeContent({ mode = 'default' }: { mode?: HomeMode }) {
             selectedIncident={selectedIncident}
             onIncidentSelect={setSelectedIncident}
             newIncidentIds={newIncidentIds}
+            units={units}
+            onBoundsChange={setMapBounds}
           />
         </ResizablePanel>
       </ResizablePanelGroup>
@@ -1,20 +1,24 @@
 "use client";
 
-import { FireIncident } from "@/types/incident";
+import { FireIncident, IncidentTransmission } from "@/types/incident";
 import { format } from "date-fns";
 import { Play, Pause, Download } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { getChannelUrl } from "@/lib/channels";
+import { IncidentStatusBadge } from "@/components/IncidentStatusBadge";
+import { IncidentEscalationBadge } from "@/components/IncidentEscalationBadge";
 
 interface IncidentCardProps {
   incident: FireIncident;
   isSelected: boolean;
   isNew: boolean;
   isPlaying: boolean;
+  playingTransmissionId?: string | null;
   showDownloadButton?: boolean;
   onSelect: (incident: FireIncident) => void;
   onPlayAudio: (e: React.MouseEvent, incident: FireIncident) => void;
   onDownloadAudio?: (e: React.MouseEvent, incident: FireIncident) => void;
+  onPlayTransmission?: (e: React.MouseEvent, transmission: IncidentTransmission) => void;
 }
 
 export function IncidentCard({
@@ -22,10 +26,12 @@ export function IncidentCard({
   isSelected,
   isNew,
   isPlaying,
+  playingTransmissionId,
   showDownloadButton,
   onSelect,
   onPlayAudio,
   onDownloadAudio,
+  onPlayTransmission,
 }: IncidentCardProps) {
   const formatDate = (dateString: string) => {
     try {
@@ -35,6 +41,20 @@ export function IncidentCard({
     }
   };
 
+  const formatTime = (dateString: string) => {
+    try {
+      return format(new Date(dateString), "HH:mm:ss");
+    } catch {
+      return "--:--:--";
+    }
+  };
+
+  // A single transmission is the incident's own audio, already on the play button.
+  const transmissions =
+    incident.transmissions && incident.transmissions.length > 1
+      ? incident.transmissions
+      : [];
+
   const hasStagingInstructions = incident.rawTranscript
     ?.toLowerCase()
     .includes("check for possible staging instructions");
@@ -78,9 +98,15 @@ export function IncidentCard({
 
         <div className="flex-1 min-w-0">
           <div className="flex items-baseline justify-between gap-2 mb-1">
-            <h3 className="font-semibold text-sm truncate">
-              {incident.issue_reported}
-            </h3>
+            <div className="flex items-center gap-1.5 min-w-0">
+              <h3 className="font-semibold text-sm truncate">
+                {incident.issue_reported}
+              </h3>
+              {incident.lifecycleStatus && incident.lifecycleStatus !== "dispatched" && (
+                <IncidentStatusBadge status={incident.lifecycleStatus} />
+              )}
+              <IncidentEscalationBadge incident={incident} />
+            </div>
             <time className="text-xs text-muted-foreground font-mono flex-shrink-0">
               {formatDate(incident.published_date)}
             </time>
@@ -140,6 +166,53 @@ export function IncidentCard({
               )}
             </div>
           ) : null}
+
+          {transmissions.length > 0 && !isSelected && (
+            <p className="text-xs text-muted-foreground mt-2">
+              {transmissions.length} transmissions
+            </p>
+          )}
+
+          {transmissions.length > 0 && isSelected && (
+            <ol className="mt-3 space-y-1 border-l border-neutral-300 dark:border-neutral-600 pl-3">
+              {transmissions.map((transmission) => (
+                <li key={transmission.id} className="flex items-start gap-2 text-xs">
+                  {transmission.audioUrl && onPlayTransmission ? (
+                    <button
+                      onClick={(e) => onPlayTransmission(e, transmission)}
+                      className="min-w-8 min-h-8 -my-1.5 flex items-center justify-center hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded-full transition-colors flex-shrink-0"
+                      title="Play transmission"
+                    >
+                      {playingTransmissionId === transmission.id ? (
+                        <Pause className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+                      ) : (
+                        <Play className="w-4 h-4 text-neutral-600 dark:text-neutral-400" />
+                      )}
+                    </button>
+                  ) : (
+                    <div className="w-8 flex-shrink-0" />
+                  )}
+                  <time className="font-mono text-muted-foreground flex-shrink-0">
+                    {formatTime(transmission.timestamp)}
+                  </time>
+                  <div className="min-w-0">
+                    <span className="font-medium">{transmission.callType || "?"}</span>
+                    {transmission.units && transmission.units.length > 0 && (
+                      <span className="text-blue-600 dark:text-blue-400">
+                        {" "}
+                        · {transmission.units.join(", ")}
+                      </span>
+                    )}
+                    {transmission.transcript && (
+                      <p className="text-muted-foreground line-clamp-2">
+                        {transmission.transcript}
+                      </p>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
         </div>
       </div>
     </Card>
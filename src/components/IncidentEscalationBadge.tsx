@@ -0,0 +1,26 @@
+"use client";
+
+import { TrendingUp } from "lucide-react";
+import { FireIncident } from "@/types/incident";
+import { getAlarmLevelLabel } from "@/lib/incident-status";
+
+// Shown once a later transmission has upgraded the incident's alarm level.
+export function IncidentEscalationBadge({ incident }: { incident: FireIncident }) {
+  if (!incident.escalations?.length || !incident.alarmLevel) return null;
+
+  const title = incident.escalations
+    .map((escalation) =>
+      `${escalation.fromLevel ? getAlarmLevelLabel(escalation.fromLevel) : "Initial assignment"} → ${getAlarmLevelLabel(escalation.toLevel)}`
+    )
+    .join("\n");
+
+  return (
+    <span
+      className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-medium leading-none whitespace-nowrap bg-red-600 text-white"
+      title={title}
+    >
+      <TrendingUp className="w-3 h-3" />
+      {getAlarmLevelLabel(incident.alarmLevel)}
+    </span>
+  );
+}
@@ -4,9 +4,18 @@ import { useEffect, useRef, useState, useMemo, useCallback } from "react";
 import { useTheme } from "next-themes";
 import maplibregl from "maplibre-gl";
 import "maplibre-gl/dist/maplibre-gl.css";
-import { FireIncident } from "@/types/incident";
+import { FireIncident, IncidentBounds } from "@/types/incident";
 import { getChannelUrl } from "@/lib/channels";
 import { FIRE_STATIONS } from "@/lib/fire-stations";
+import {
+  createCirclePolygon,
+  getGeocodePrecisionLabel,
+  getUncertaintyRadiusMeters,
+  isLowConfidenceGeocode,
+} from "@/lib/geocode-precision";
+import { getLifecycleStatusLabel } from "@/lib/incident-status";
+import { formatTimeCommitted, getStationAvailability, groupApparatusByStation, StationAvailability } from "@/lib/unit-status";
+import { UnitStatus } from "@/types/unit";
 import { Flame, MapPin, Building2 } from "lucide-react";
 
 interface IncidentMapProps {
@@ -14,24 +23,44 @@ interface IncidentMapProps {
   selectedIncident: FireIncident | null;
   onIncidentSelect: (incident: FireIncident) => void;
   newIncidentIds?: Set<string>;
+  units?: UnitStatus[];
+  // Called with the visible area once the map loads and after every pan or zoom
+  onBoundsChange?: (bounds: IncidentBounds) => void;
 }
 
 const EMPTY_SET = new Set<string>();
+const EMPTY_UNITS: UnitStatus[] = [];
+
+const STATION_MARKER_COLORS: Record<StationAvailability, string> = {
+  available: 'bg-emerald-600',
+  partial: 'bg-amber-500',
+  committed: 'bg-red-600',
+  unknown: 'bg-neutral-400',
+};
+
+const PLAY_ICON = '<svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor"><path d="M8 5v14l11-7z"/></svg>';
+const PAUSE_ICON = '<svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor"><path d="M6 5h4v14H6zM14 5h4v14h-4z"/></svg>';
 
 export function IncidentMap({
   incidents,
   selectedIncident,
   onIncidentSelect,
   newIncidentIds,
+  units = EMPTY_UNITS,
+  onBoundsChange,
 }: IncidentMapProps) {
   const stableNewIncidentIds = useMemo(
     () => newIncidentIds || EMPTY_SET,
     [newIncidentIds]
   );
+  const apparatusByStation = useMemo(() => groupApparatusByStation(units), [units]);
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<maplibregl.Map | null>(null);
   const markers = useRef<Map<string, maplibregl.Marker>>(new Map());
   const stationMarkers = useRef<Map<string, maplibregl.Marker>>(new Map());
+  const stationPopups = useRef<maplibregl.Popup[]>([]);
+  // Transmission playback started from an incident popup; stopped when the popup closes.
+  const popupAudio = useRef<HTMLAudioElement | null>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
   const [userLocation, setUserLocation] = useState<{lat: number; lng: number} | null>(null);
   const [showHeatmap, setShowHeatmap] = useState(false);
@@ -52,6 +81,25 @@ export function IncidentMap({
       }))
   }), [incidents]);
 
+  const uncertaintyData = useMemo(() => ({
+    type: 'FeatureCollection' as const,
+    features: incidents
+      .filter(inc => inc.location?.coordinates?.[0] !== 0 && inc.location?.coordinates?.[1] !== 0)
+      .filter(inc => isLowConfidenceGeocode(inc))
+      .map(inc => ({
+        type: 'Feature' as const,
+        geometry: {
+          type: 'Polygon' as const,
+          coordinates: [createCirclePolygon(inc.location.coordinates, getUncertaintyRadiusMeters(inc))]
+        },
+        properties: {
+          id: inc.traffic_report_id,
+          incidentType: inc.incidentType || 'traffic',
+          active: inc.traffic_report_status === 'ACTIVE'
+        }
+      }))
+  }), [incidents]);
+
   useEffect(() => {
     const style = document.createElement("style");
     const isDark = resolvedTheme === "dark";
@@ -88,6 +136,12 @@ export function IncidentMap({
         animation: marker-flash 1.5s ease-in-out;
       }
 
+      /* Geocoded to a street or block rather than an exact address */
+      .low-confidence-marker {
+        border-style: dashed !important;
+        background-color: ${isDark ? "rgba(23, 23, 23, 0.6)" : "rgba(255, 255, 255, 0.6)"} !important;
+      }
+
 
       .radar-ring {
         position: absolute;
@@ -242,6 +296,28 @@ export function IncidentMap({
     };
   }, [resolvedTheme]);
 
+  useEffect(() => {
+    const current = map.current;
+    if (!current || !mapLoaded || !onBoundsChange) return;
+
+    const reportBounds = () => {
+      const bounds = current.getBounds();
+      onBoundsChange({
+        west: bounds.getWest(),
+        south: bounds.getSouth(),
+        east: bounds.getEast(),
+        north: bounds.getNorth(),
+      });
+    };
+
+    reportBounds();
+    current.on('moveend', reportBounds);
+
+    return () => {
+      current.off('moveend', reportBounds);
+    };
+  }, [mapLoaded, onBoundsChange, resolvedTheme]);
+
   useEffect(() => {
     if (!mapLoaded) return;
 
@@ -314,16 +390,68 @@ export function IncidentMap({
     }
   }, [geojsonData, showHeatmap]);
 
+  // Uncertainty areas for incidents that were only geocoded to a street or block
+  const addUncertaintyLayer = useCallback(() => {
+    if (!map.current) return;
+
+    if (!map.current.getSource('incidents-uncertainty')) {
+      map.current.addSource('incidents-uncertainty', {
+        type: 'geojson',
+        data: uncertaintyData
+      });
+    }
+
+    const color: maplibregl.ExpressionSpecification = [
+      'case',
+      ['!', ['get', 'active']], '#737373',
+      ['match', ['get', 'incidentType'],
+        'fire', '#dc2626',
+        'medical', '#959F1E',
+        '#eab308'
+      ]
+    ];
+    const visibility = showHeatmap ? 'none' : 'visible';
+
+    if (!map.current.getLayer('uncertainty-fill')) {
+      map.current.addLayer({
+        id: 'uncertainty-fill',
+        type: 'fill',
+        source: 'incidents-uncertainty',
+        paint: {
+          'fill-color': color,
+          'fill-opacity': 0.12
+        },
+        layout: { visibility }
+      });
+    }
+
+    if (!map.current.getLayer('uncertainty-outline')) {
+      map.current.addLayer({
+        id: 'uncertainty-outline',
+        type: 'line',
+        source: 'incidents-uncertainty',
+        paint: {
+          'line-color': color,
+          'line-width': 1.5,
+          'line-opacity': 0.6,
+          'line-dasharray': [2, 2]
+        },
+        layout: { visibility }
+      });
+    }
+  }, [uncertaintyData, showHeatmap]);
+
   useEffect(() => {
     if (!map.current || !mapLoaded) return;
 
     map.current.setStyle(getMapStyle(resolvedTheme));
 
-    // Re-add heatmap layer after style change
+    // Re-add heatmap and uncertainty layers after style change
     map.current.once('styledata', () => {
       addHeatmapLayer();
+      addUncertaintyLayer();
     });
-  }, [resolvedTheme, mapLoaded, addHeatmapLayer]);
+  }, [resolvedTheme, mapLoaded, addHeatmapLayer, addUncertaintyLayer]);
 
   // Update heatmap data when incidents change
   useEffect(() => {
@@ -337,6 +465,17 @@ export function IncidentMap({
     }
   }, [geojsonData, mapLoaded, addHeatmapLayer]);
 
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+
+    const source = map.current.getSource('incidents-uncertainty') as maplibregl.GeoJSONSource;
+    if (source) {
+      source.setData(uncertaintyData);
+    } else {
+      addUncertaintyLayer();
+    }
+  }, [uncertaintyData, mapLoaded, addUncertaintyLayer]);
+
   // Toggle heatmap/markers visibility
   useEffect(() => {
     if (!map.current || !mapLoaded) return;
@@ -346,6 +485,12 @@ export function IncidentMap({
       map.current.setLayoutProperty('heatmap-layer', 'visibility', showHeatmap ? 'visible' : 'none');
     }
 
+    for (const layerId of ['uncertainty-fill', 'uncertainty-outline']) {
+      if (map.current.getLayer(layerId)) {
+        map.current.setLayoutProperty(layerId, 'visibility', showHeatmap ? 'none' : 'visible');
+      }
+    }
+
     markers.current.forEach((marker, key) => {
       if (key === 'user-location') return;
       const el = marker.getElement();
@@ -353,7 +498,7 @@ export function IncidentMap({
     });
   }, [showHeatmap, mapLoaded]);
 
-  // Toggle fire station markers
+  // Toggle fire station markers, colored by how many of their units are committed
   useEffect(() => {
     if (!map.current || !mapLoaded) return;
 
@@ -362,12 +507,34 @@ export function IncidentMap({
     const textColor = isDark ? 'white' : 'black';
     const mutedColor = isDark ? '#9ca3af' : '#6b7280';
 
+    stationMarkers.current.forEach((marker) => marker.remove());
+    stationMarkers.current.clear();
+    stationPopups.current.forEach((popup) => popup.remove());
+    stationPopups.current = [];
+
     if (showStations) {
+      const now = new Date();
+
       FIRE_STATIONS.forEach((station) => {
-        if (stationMarkers.current.has(station.id)) return;
+        const apparatus = apparatusByStation.get(station.id) ?? [];
+
+        // One line per apparatus: what it is committed to and for how long, or available
+        const apparatusHtml = apparatus.map(({ unit, status }) => {
+          const assignment = status?.assignment;
+          return `
+            <div style="display: flex; justify-content: space-between; gap: 8px; font-size: 11px; margin-top: 2px;">
+              <span style="font-weight: 500;">${unit}</span>
+              ${assignment ? `
+                <span style="color: #dc2626; text-align: right; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">
+                  ${assignment.callType || 'Committed'} · ${formatTimeCommitted(assignment.committedSince, now)}
+                </span>
+              ` : `<span style="color: #059669;">Available</span>`}
+            </div>
+          `;
+        }).join('');
 
         const stationEl = document.createElement('div');
-        stationEl.className = 'w-3 h-3 bg-emerald-600 border-2 border-white rounded-sm cursor-pointer shadow-md';
+        stationEl.className = `w-3 h-3 ${STATION_MARKER_COLORS[getStationAvailability(apparatus)]} border-2 border-white rounded-sm cursor-pointer shadow-md`;
         stationEl.style.transform = 'rotate(45deg)';
 
         const marker = new maplibregl.Marker({
@@ -391,6 +558,11 @@ export function IncidentMap({
               <div style="font-size: 10px; color: ${station.department === 'AFD' ? '#059669' : '#8b5cf6'}; margin-top: 4px; font-weight: 500;">
                 ${station.department === 'AFD' ? 'Austin Fire Dept' : 'Travis County ESD'}
               </div>
+              ${apparatus.length > 0 ? `
+                <div style="margin-top: 6px; padding-top: 6px; border-top: 1px solid ${isDark ? '#374151' : '#e5e7eb'};">
+                  ${apparatusHtml}
+                </div>
+              ` : ''}
             </div>
           `);
 
@@ -403,12 +575,10 @@ export function IncidentMap({
         });
 
         stationMarkers.current.set(station.id, marker);
+        stationPopups.current.push(popup);
       });
-    } else {
-      stationMarkers.current.forEach((marker) => marker.remove());
-      stationMarkers.current.clear();
     }
-  }, [showStations, mapLoaded, resolvedTheme]);
+  }, [showStations, mapLoaded, resolvedTheme, apparatusByStation]);
 
   const groupIncidentsByLocation = (incidents: FireIncident[]) => {
     const groups = new Map<string, FireIncident[]>();
@@ -573,6 +743,7 @@ export function IncidentMap({
         const incident = firstIncident;
         const isActive = incident.traffic_report_status === "ACTIVE";
         const incidentType = incident.incidentType;
+        const lowConfidence = isLowConfidenceGeocode(incident) ? 'low-confidence-marker' : '';
 
         if (isActive) {
           const colors =
@@ -582,7 +753,7 @@ export function IncidentMap({
               ? "border-[#959F1E] bg-[#959F1E]"
               : "border-yellow-500 bg-yellow-500";
 
-          markerEl.className = `w-4 h-4 rounded-full border-2 cursor-pointer ${colors} active-marker relative ${hasNewIncident ? 'flash-marker' : ''}`;
+          markerEl.className = `w-4 h-4 rounded-full border-2 cursor-pointer ${colors} active-marker relative ${lowConfidence} ${hasNewIncident ? 'flash-marker' : ''}`;
 
           const radarRing = document.createElement("div");
           const radarClass = incidentType === "fire" ? "fire-radar" : incidentType === "medical" ? "medical-radar" : "traffic-radar";
@@ -590,7 +761,7 @@ export function IncidentMap({
           markerEl.appendChild(radarRing);
         } else {
           markerEl.className =
-            `w-4 h-4 rounded-full border-2 cursor-pointer border-neutral-600 bg-neutral-400 ${hasNewIncident ? 'flash-marker' : ''}`;
+            `w-4 h-4 rounded-full border-2 cursor-pointer border-neutral-600 bg-neutral-400 ${lowConfidence} ${hasNewIncident ? 'flash-marker' : ''}`;
         }
       }
 
@@ -691,6 +862,27 @@ export function IncidentMap({
                 : `${separator}${channel}`;
             }).join('')
           : '-';
+        const transmissions = incident.transmissions && incident.transmissions.length > 1
+          ? incident.transmissions
+          : [];
+        const transmissionRows = transmissions.map((transmission, idx) => `
+              <div style="display: flex; align-items: center; justify-content: center;">
+                ${transmission.audioUrl ? `
+                  <button data-transmission="${idx}" title="Play transmission" style="display: flex; align-items: center; justify-content: center; width: 20px; height: 20px; border-radius: 9999px; color: ${neutralTextColor}; cursor: pointer;">
+                    ${PLAY_ICON}
+                  </button>
+                ` : ''}
+              </div>
+              <div style="font-size: 11px;">
+                <span style="color: ${neutralTextColor}; font-family: monospace;">${new Date(transmission.timestamp).toLocaleTimeString('en-US', { hour12: false })}</span>
+                <span style="color: ${textColor};">${transmission.callType || '?'}</span>
+                ${transmission.units && transmission.units.length > 0 ? `<span style="color: #3b82f6;">· ${transmission.units.join(', ')}</span>` : ''}
+              </div>
+            `).join('');
+        const uncertaintyRadius = getUncertaintyRadiusMeters(incident);
+        const locationNote = incident.geocodePrecision && uncertaintyRadius > 0
+          ? `${getGeocodePrecisionLabel(incident.geocodePrecision)} (±${uncertaintyRadius} m)`
+          : null;
 
         popupContent = `
           <div style="background: ${bgColor}; color: ${textColor}; padding: 12px; border-radius: 8px; border: 1px solid ${
@@ -718,6 +910,18 @@ export function IncidentMap({
               <div style="color: ${neutralTextColor};">
                 ${incident.address || '?'}
               </div>
+              ${incident.lifecycleStatus ? `
+              <div></div>
+              <div style="color: ${neutralTextColor}; font-size: 11px;">
+                <strong>Status:</strong> ${getLifecycleStatusLabel(incident.lifecycleStatus)}
+              </div>
+              ` : ''}
+              ${locationNote ? `
+              <div></div>
+              <div style="color: #f59e0b; font-size: 11px;">
+                <strong>Location:</strong> ${locationNote}
+              </div>
+              ` : ''}
 
               <div></div>
               <div style="color: #3b82f6; font-size: 11px;">
@@ -728,11 +932,21 @@ export function IncidentMap({
               <div style="color: #a855f7; font-size: 11px;">
                 <strong>Channels:</strong> ${channels}
               </div>
+              ${transmissions.length > 0 ? `
+              <div></div>
+              <div style="color: ${neutralTextColor}; font-size: 11px; border-top: 1px solid ${isDark ? "#374151" : "#e5e7eb"}; padding-top: 6px;">
+                <strong>Transmissions (${transmissions.length})</strong>
+              </div>
+              ${transmissionRows}
+              ` : ''}
             </div>
           </div>
         `;
       }
 
+      const popupEl = document.createElement("div");
+      popupEl.innerHTML = popupContent;
+
       const popup = new maplibregl.Popup({
         offset: 20,
         closeButton: false,
@@ -740,11 +954,56 @@ export function IncidentMap({
         className: "custom-popup",
       })
         .setLngLat([lng, lat])
-        .setHTML(popupContent);
+        .setDOMContent(popupEl);
 
       let hoverTimeout: NodeJS.Timeout;
       let isClicked = false;
 
+      const transmissions = isCluster ? [] : firstIncident.transmissions || [];
+      const setPlayIcons = (playingButton: HTMLElement | null) => {
+        popupEl.querySelectorAll<HTMLElement>("[data-transmission]").forEach((button) => {
+          button.innerHTML = button === playingButton ? PAUSE_ICON : PLAY_ICON;
+          button.style.color = button === playingButton ? "#3b82f6" : neutralTextColor;
+        });
+      };
+
+      popupEl.querySelectorAll<HTMLElement>("[data-transmission]").forEach((button) => {
+        button.addEventListener("click", (e) => {
+          e.stopPropagation();
+          const transmission = transmissions[Number(button.dataset.transmission)];
+          const wasPlaying = popupAudio.current?.dataset.transmission === transmission.id;
+
+          popupAudio.current?.pause();
+          popupAudio.current = null;
+          setPlayIcons(null);
+          if (wasPlaying || !transmission.audioUrl) return;
+
+          const audio = new Audio(transmission.audioUrl);
+          audio.dataset.transmission = transmission.id;
+          audio.onended = () => {
+            if (popupAudio.current === audio) popupAudio.current = null;
+            setPlayIcons(null);
+          };
+          audio.play().catch((error) => console.error("Playback failed:", error));
+          popupAudio.current = audio;
+          setPlayIcons(button);
+        });
+      });
+
+      popup.on("close", () => {
+        const playingId = popupAudio.current?.dataset.transmission;
+        if (playingId && transmissions.some((transmission) => transmission.id === playingId)) {
+          popupAudio.current!.pause();
+          popupAudio.current = null;
+          setPlayIcons(null);
+        }
+      });
+
+      // Moving from the marker into the popup keeps it open, so transmissions and
+      // channel links can be clicked.
+      popupEl.addEventListener("mouseenter", () => clearTimeout(hoverTimeout));
+      popupEl.addEventListener("mouseleave", () => popup.remove());
+
       markerEl.addEventListener("click", (e) => {
         e.stopPropagation();
         isClicked = true;
@@ -797,9 +1056,11 @@ export function IncidentMap({
         markerEl.style.transform = `${positionTransform} scale(1)`;
 
         clearTimeout(hoverTimeout);
-        if (!isClicked) {
-          popup.remove();
-        }
+        hoverTimeout = setTimeout(() => {
+          if (!isClicked) {
+            popup.remove();
+          }
+        }, 200);
       });
 
       const markerId = isCluster
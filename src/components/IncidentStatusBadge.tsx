@@ -0,0 +1,22 @@
+"use client";
+
+import { IncidentLifecycleStatus } from "@/types/incident";
+import { getLifecycleStatusLabel } from "@/lib/incident-status";
+
+const STATUS_STYLES: Record<IncidentLifecycleStatus, string> = {
+  dispatched: "bg-neutral-100 text-neutral-700 dark:bg-neutral-800 dark:text-neutral-300",
+  working: "bg-orange-100 text-orange-800 dark:bg-orange-950 dark:text-orange-300",
+  upgraded: "bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-300",
+  under_control: "bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-300",
+  cleared: "bg-neutral-100 text-neutral-500 dark:bg-neutral-800 dark:text-neutral-400",
+};
+
+export function IncidentStatusBadge({ status }: { status: IncidentLifecycleStatus }) {
+  return (
+    <span
+      className={`inline-block px-1.5 py-0.5 rounded-full text-[10px] font-medium leading-none whitespace-nowrap ${STATUS_STYLES[status]}`}
+    >
+      {getLifecycleStatusLabel(status)}
+    </span>
+  );
+}
@@ -2,11 +2,13 @@
 
 import { useState, useMemo, memo, useRef, useEffect, useCallback } from "react";
 import { format } from "date-fns";
-import { Search, Calendar, RefreshCw, Play, Pause, Trash2, Volume2, AlertTriangle, Filter, Download } from "lucide-react";
+import { Search, Calendar, RefreshCw, Play, Pause, Trash2, Volume2, AlertTriangle, Filter, Download, MapPin } from "lucide-react";
 import { ExportPopover } from "@/components/ExportPopover";
 import { useSettings } from "@/lib/settings";
 import { useMediaQuery } from "@/lib/hooks/useMediaQuery";
 import { IncidentCard } from "@/components/IncidentCard";
+import { IncidentStatusBadge } from "@/components/IncidentStatusBadge";
+import { IncidentEscalationBadge } from "@/components/IncidentEscalationBadge";
 import { getChannelUrl } from "@/lib/channels";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -42,8 +44,13 @@ import {
   FilterState,
   IncidentStatus,
   DateRange,
+  IncidentBounds,
+  IncidentTransmission,
 } from "@/types/incident";
+import { UnitStatus } from "@/types/unit";
 import { removeUnitsFromOlderIncidents } from "@/lib/api";
+import { getLifecycleStatusLabel, isIncidentOpen, LIFECYCLE_STATUSES, matchesStatusFilter } from "@/lib/incident-status";
+import { getDateWindow } from "@/lib/incident-query";
 
 interface IncidentsListProps {
   incidents: FireIncident[];
@@ -58,8 +65,39 @@ interface IncidentsListProps {
   onRefresh?: () => void;
   onResetStorage?: () => void;
   fullWidth?: boolean;
+  // Current unit assignments, used to place units in the DYNAMIC range
+  units?: UnitStatus[];
+  // Server-side search for date ranges the latest snapshot doesn't cover
+  onFiltersChange?: (filters: FilterState) => void;
+  onLoadMore?: () => void;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  // The map's viewport, when a map is showing
+  mapBounds?: IncidentBounds | null;
 }
 
+const INCIDENT_TYPES = [
+  { value: "fire", label: "Fire" },
+  { value: "medical", label: "Medical" },
+  { value: "traffic", label: "Traffic" },
+];
+
+const DEFAULT_FILTERS: FilterState = {
+  search: "",
+  status: "ACTIVE",
+  dateRange: "DYNAMIC",
+  startDate: undefined,
+  endDate: undefined,
+  startTime: undefined,
+  endTime: undefined,
+  daysOfWeek: [],
+  agency: "ALL",
+  incidentType: "ALL",
+  units: [],
+  showOnlyStaging: false,
+  showOnlyInMapView: false,
+};
+
 const ITEM_HEIGHT = 32;
 const ITEM_HEIGHT_FULL = 44;
 const BUFFER_SIZE = 10;
@@ -395,6 +433,16 @@ const VirtualizedList = memo(
             </div>
             <div style={{ width: columnWidths.callType }} className="px-2 truncate font-medium flex-shrink-0 relative group">
               {incident.issue_reported}
+              {incident.lifecycleStatus && incident.lifecycleStatus !== "dispatched" && (
+                <span className="ml-1.5 align-middle">
+                  <IncidentStatusBadge status={incident.lifecycleStatus} />
+                </span>
+              )}
+              {incident.escalations && (
+                <span className="ml-1.5 align-middle">
+                  <IncidentEscalationBadge incident={incident} />
+                </span>
+              )}
               <div
                 className="absolute right-0 top-0 bottom-0 w-1 cursor-col-resize hover:bg-blue-500 opacity-0 group-hover:opacity-100"
                 onMouseDown={(e) => handleResizeStart(e, 'callType')}
@@ -609,22 +657,16 @@ export function IncidentsList({
   onRefresh,
   onResetStorage,
   fullWidth,
+  units,
+  onFiltersChange,
+  onLoadMore,
+  hasMore,
+  isLoadingMore,
+  mapBounds,
 }: IncidentsListProps) {
   const { settings } = useSettings();
   const isMobile = useMediaQuery("(max-width: 768px)");
-  const [filters, setFilters] = useState<FilterState>({
-    search: "",
-    status: "ACTIVE",
-    dateRange: "DYNAMIC",
-    startDate: undefined,
-    endDate: undefined,
-    startTime: undefined,
-    endTime: undefined,
-    daysOfWeek: [],
-    agency: "ALL",
-    units: [],
-    showOnlyStaging: false,
-  });
+  const [filters, setFilters] = useState<FilterState>(DEFAULT_FILTERS);
 
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
   const [isFiltersDialogOpen, setIsFiltersDialogOpen] = useState(false);
@@ -635,66 +677,14 @@ export function IncidentsList({
   const playPromiseRef = useRef<Promise<void> | null>(null);
 
 
-  const getDateRange = useCallback((range: DateRange) => {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-
-    switch (range) {
-      case "ALL":
-        return { start: undefined, end: undefined };
-      case "DYNAMIC":
-        return { start: undefined, end: undefined };
-      case "LAST_30_MINS":
-        return {
-          start: new Date(now.getTime() - 30 * 60 * 1000),
-          end: now,
-        };
-      case "LAST_HOUR":
-        return {
-          start: new Date(now.getTime() - 60 * 60 * 1000),
-          end: now,
-        };
-      case "LAST_4_HOURS":
-        return {
-          start: new Date(now.getTime() - 4 * 60 * 60 * 1000),
-          end: now,
-        };
-      case "LAST_12_HOURS":
-        return {
-          start: new Date(now.getTime() - 12 * 60 * 60 * 1000),
-          end: now,
-        };
-      case "TODAY":
-        return {
-          start: today,
-          end: new Date(today.getTime() + 24 * 60 * 60 * 1000),
-        };
-      case "WEEK":
-        return {
-          start: new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000),
-          end: new Date(),
-        };
-      case "CUSTOM":
-        let start = filters.startDate;
-        let end = filters.endDate;
-
-        if (start && filters.startTime) {
-          const [hours, minutes] = filters.startTime.split(':').map(Number);
-          start = new Date(start);
-          start.setHours(hours, minutes, 0, 0);
-        }
-
-        if (end && filters.endTime) {
-          const [hours, minutes] = filters.endTime.split(':').map(Number);
-          end = new Date(end);
-          end.setHours(hours, minutes, 59, 999);
-        }
+  const bounds = filters.showOnlyInMapView ? mapBounds ?? undefined : undefined;
 
-        return { start, end };
-      default:
-        return { start: undefined, end: undefined };
-    }
-  }, [filters.startDate, filters.endDate, filters.startTime, filters.endTime]);
+  // Typing in the search box or panning the map shouldn't send a request per change
+  useEffect(() => {
+    if (!onFiltersChange) return;
+    const timeout = setTimeout(() => onFiltersChange({ ...filters, bounds }), 300);
+    return () => clearTimeout(timeout);
+  }, [filters, bounds, onFiltersChange]);
 
   const allFilteredIncidents = useMemo(() => {
     const filtered = incidents.filter((incident) => {
@@ -731,13 +721,13 @@ export function IncidentsList({
         }
       }
 
-      if (filters.search) {
-        const searchLower = filters.search.toLowerCase();
+      if (filters.search.trim()) {
+        const searchLower = filters.search.trim().toLowerCase();
         const searchFields = [
           incident.issue_reported,
           incident.address,
           incident.agency,
-          incident.traffic_report_status,
+          incident.lifecycleStatus && getLifecycleStatusLabel(incident.lifecycleStatus),
         ];
 
         if (
@@ -749,10 +739,7 @@ export function IncidentsList({
         }
       }
 
-      if (
-        filters.status !== "ALL" &&
-        incident.traffic_report_status !== filters.status
-      ) {
+      if (!matchesStatusFilter(incident, filters.status)) {
         return false;
       }
 
@@ -760,6 +747,18 @@ export function IncidentsList({
         return false;
       }
 
+      if (filters.incidentType !== "ALL" && incident.incidentType !== filters.incidentType) {
+        return false;
+      }
+
+      if (bounds) {
+        const [lng, lat] = incident.location.coordinates;
+        const { west, south, east, north } = bounds;
+        if (lng < west || lng > east || lat < south || lat > north) {
+          return false;
+        }
+      }
+
       if (filters.units.length > 0) {
         const hasMatchingUnit = incident.units?.some(unit =>
           filters.units.includes(unit)
@@ -787,17 +786,11 @@ export function IncidentsList({
       if (filters.dateRange === "ALL") {
         return true;
       } else if (filters.dateRange === "DYNAMIC") {
-        if (incident.estimatedResolutionMinutes) {
-          const incidentDate = new Date(incident.published_date);
-          const now = new Date();
-          const minutesSinceIncident = (now.getTime() - incidentDate.getTime()) / (1000 * 60);
-
-          if (minutesSinceIncident > incident.estimatedResolutionMinutes) {
-            return false;
-          }
+        if (!isIncidentOpen(incident)) {
+          return false;
         }
       } else {
-        const dateRange = getDateRange(filters.dateRange);
+        const dateRange = getDateWindow(filters);
         if (dateRange.start || dateRange.end) {
           const incidentDate = new Date(incident.published_date);
 
@@ -819,7 +812,7 @@ export function IncidentsList({
     });
 
     return filtered;
-  }, [incidents, filters, getDateRange, settings.hideIncompleteIncidents, settings.hideIncidentsWithoutUnitsOrCallType]);
+  }, [incidents, filters, bounds, settings.hideIncompleteIncidents, settings.hideIncidentsWithoutUnitsOrCallType]);
 
   const displayedIncidents = useMemo(() => {
     const sorted = allFilteredIncidents.sort(
@@ -829,11 +822,11 @@ export function IncidentsList({
     );
 
     if (filters.dateRange === "DYNAMIC") {
-      return removeUnitsFromOlderIncidents(sorted);
+      return removeUnitsFromOlderIncidents(sorted, units);
     }
 
     return sorted;
-  }, [allFilteredIncidents, filters.dateRange]);
+  }, [allFilteredIncidents, filters.dateRange, units]);
 
 
   useEffect(() => {
@@ -867,36 +860,23 @@ export function IncidentsList({
     let count = 0;
     if (filters.status !== "ACTIVE") count++;
     if (filters.agency !== "ALL") count++;
+    if (filters.incidentType !== "ALL") count++;
     if (filters.units.length > 0) count++;
     if (filters.showOnlyStaging) count++;
+    if (filters.showOnlyInMapView) count++;
     if (filters.dateRange !== "DYNAMIC" && filters.dateRange !== "ALL") count++;
     if (filters.daysOfWeek.length > 0) count++;
     return count;
   }, [filters]);
 
   const clearFilters = () => {
-    setFilters({
-      search: "",
-      status: "ACTIVE",
-      dateRange: "DYNAMIC",
-      startDate: undefined,
-      endDate: undefined,
-      startTime: undefined,
-      endTime: undefined,
-      daysOfWeek: [],
-      agency: "ALL",
-      units: [],
-      showOnlyStaging: false,
-    });
+    setFilters(DEFAULT_FILTERS);
   };
 
-  const handlePlayAudio = useCallback(
-    async (e: React.MouseEvent, incident: FireIncident) => {
-      e.stopPropagation();
-
-      if (!incident.audioUrl) return;
-
-      if (playingAudioId === incident.traffic_report_id) {
+  // Keyed by external_id, so an incident and its first transmission share a play state.
+  const toggleAudio = useCallback(
+    async (audioId: string, audioUrl: string) => {
+      if (playingAudioId === audioId) {
         if (playPromiseRef.current) {
           await playPromiseRef.current.catch(() => {});
         }
@@ -912,11 +892,11 @@ export function IncidentsList({
           audioRef.current.pause();
         }
 
-        audioRef.current = new Audio(incident.audioUrl);
+        audioRef.current = new Audio(audioUrl);
         playPromiseRef.current = audioRef.current.play().catch((error) => {
           console.error("Playback failed:", error);
         });
-        setPlayingAudioId(incident.traffic_report_id);
+        setPlayingAudioId(audioId);
         onAudioStateChange?.(true);
 
         audioRef.current.onended = () => {
@@ -929,6 +909,24 @@ export function IncidentsList({
     [playingAudioId, onAudioStateChange]
   );
 
+  const handlePlayAudio = useCallback(
+    (e: React.MouseEvent, incident: FireIncident) => {
+      e.stopPropagation();
+      if (!incident.audioUrl) return;
+      toggleAudio(incident.traffic_report_id, incident.audioUrl);
+    },
+    [toggleAudio]
+  );
+
+  const handlePlayTransmission = useCallback(
+    (e: React.MouseEvent, transmission: IncidentTransmission) => {
+      e.stopPropagation();
+      if (!transmission.audioUrl) return;
+      toggleAudio(transmission.id, transmission.audioUrl);
+    },
+    [toggleAudio]
+  );
+
   const handleDownloadAudio = useCallback((e: React.MouseEvent, incident: FireIncident) => {
     e.stopPropagation();
     if (!incident.audioUrl) return;
@@ -1071,6 +1069,11 @@ export function IncidentsList({
                     <SelectContent>
                       <SelectItem value="ALL">All Status</SelectItem>
                       <SelectItem value="ACTIVE">Active</SelectItem>
+                      {LIFECYCLE_STATUSES.filter((status) => status !== "cleared").map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {getLifecycleStatusLabel(status)}
+                        </SelectItem>
+                      ))}
                       <SelectItem value="ARCHIVED">Archived</SelectItem>
                     </SelectContent>
                   </Select>
@@ -1098,6 +1101,28 @@ export function IncidentsList({
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Incident Type</label>
+                  <Select
+                    value={filters.incidentType}
+                    onValueChange={(value) =>
+                      setFilters((prev) => ({ ...prev, incidentType: value }))
+                    }
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Incident type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ALL">All Types</SelectItem>
+                      {INCIDENT_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <div className="space-y-2">
                   <label className="text-sm font-medium">Units</label>
                   <Input
@@ -1166,6 +1191,31 @@ export function IncidentsList({
                   </div>
                 </div>
 
+                {mapBounds !== undefined && (
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <div
+                        className={`w-5 h-5 border rounded cursor-pointer flex items-center justify-center ${
+                          filters.showOnlyInMapView
+                            ? "bg-blue-600 border-blue-600"
+                            : "border-neutral-300 dark:border-neutral-600"
+                        }`}
+                        onClick={() => setFilters((prev) => ({ ...prev, showOnlyInMapView: !prev.showOnlyInMapView }))}
+                      >
+                        {filters.showOnlyInMapView && (
+                          <div className="w-2.5 h-2.5 bg-white rounded-sm" />
+                        )}
+                      </div>
+                      <label className="text-sm font-medium cursor-pointer" onClick={() => setFilters((prev) => ({ ...prev, showOnlyInMapView: !prev.showOnlyInMapView }))}>
+                        <div className="flex items-center gap-2">
+                          <MapPin className="h-4 w-4" />
+                          Show only incidents in map view
+                        </div>
+                      </label>
+                    </div>
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <label className="text-sm font-medium">Date Range</label>
                   <Select
@@ -1341,9 +1391,11 @@ export function IncidentsList({
                 }
                 isNew={false}
                 isPlaying={playingAudioId === incident.traffic_report_id}
+                playingTransmissionId={playingAudioId}
                 showDownloadButton={settings.showDownloadButton}
                 onSelect={onIncidentSelect}
                 onPlayAudio={handlePlayAudio}
+                onPlayTransmission={handlePlayTransmission}
                 onDownloadAudio={handleDownloadAudio}
               />
             ))}
@@ -1364,6 +1416,15 @@ export function IncidentsList({
           />
         )}
       </div>
+
+      {hasMore && filters.dateRange !== "DYNAMIC" && (
+        <div className="p-2 border-t flex justify-center">
+          <Button variant="outline" size="sm" onClick={onLoadMore} disabled={isLoadingMore} className="gap-2">
+            <RefreshCw className={`h-3 w-3 ${isLoadingMore ? "animate-spin" : ""}`} />
+            Load older incidents
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -172,6 +172,7 @@ export function SettingsDialog({ incidents = [], onReplayIncident }: SettingsDia
     settings.notifyCallTypes,
     settings.notifyUnits,
     settings.notifyIncidentTypes,
+    settings.notifyEscalations,
     syncFilters,
   ]);
 
@@ -410,6 +411,24 @@ export function SettingsDialog({ incidents = [], onReplayIncident }: SettingsDia
                     />
                   </div>
 
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <label htmlFor="notify-escalations" className="text-sm font-medium">
+                        Alarm upgrades
+                      </label>
+                      <p className="text-sm text-muted-foreground">
+                        Notify when an incident is upgraded to a higher alarm
+                      </p>
+                    </div>
+                    <Switch
+                      id="notify-escalations"
+                      checked={settings.notifyEscalations}
+                      onCheckedChange={(checked) =>
+                        updateSettings({ notifyEscalations: checked })
+                      }
+                    />
+                  </div>
+
                   {!settings.notifyAllCalls && (
                     <div className="space-y-4">
                       <div className="space-y-2">
@@ -17,6 +17,7 @@ import {
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { FireIncident } from '@/types/incident';
 import { useMediaQuery } from '@/lib/hooks/useMediaQuery';
+import { getAlarmLevelLabel } from '@/lib/incident-status';
 import { format } from 'date-fns';
 import { ArrowLeft, Search, ChevronRight } from 'lucide-react';
 
@@ -521,9 +522,11 @@ export function StatisticsDashboard({ incidents }: StatisticsDashboardProps) {
     const unitCounts = new Map<string, number>();
     const callTypeCounts = new Map<string, number>();
     const channelCounts = new Map<string, number>();
+    const alarmLevelCounts = Array(6).fill(0) as number[];
     const uniqueUnits = new Set<string>();
 
     let activeCount = 0;
+    let escalatedCount = 0;
     let withUnits = 0;
     let withAddress = 0;
     let withAudio = 0;
@@ -566,6 +569,9 @@ export function StatisticsDashboard({ incidents }: StatisticsDashboardProps) {
 
       if (inc.traffic_report_status === 'ACTIVE') activeCount++;
 
+      if (inc.alarmLevel) alarmLevelCounts[inc.alarmLevel]++;
+      if (inc.escalations?.length) escalatedCount++;
+
       if (inc.units && inc.units.length > 0) {
         withUnits++;
         totalUnitsDispatched += inc.units.length;
@@ -609,6 +615,11 @@ export function StatisticsDashboard({ incidents }: StatisticsDashboardProps) {
       .slice(0, 5)
       .map(([label, count]) => ({ label, count }));
 
+    const byAlarmLevel = alarmLevelCounts
+      .map((count, level) => ({ label: getAlarmLevelLabel(level), count }))
+      .slice(1)
+      .filter((item) => item.count > 0);
+
     const total = incidents.length;
     const avgPerDay = uniqueDays.size > 0 ? (total / uniqueDays.size).toFixed(1) : '0';
     const avgUnitsPerIncident =
@@ -657,6 +668,8 @@ export function StatisticsDashboard({ incidents }: StatisticsDashboardProps) {
       topUnits,
       topCallTypes,
       topChannels,
+      byAlarmLevel,
+      escalatedCount,
       allUnits,
       allCallTypes,
       pctWithUnits,
@@ -966,6 +979,18 @@ export function StatisticsDashboard({ incidents }: StatisticsDashboardProps) {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Alarm Levels</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <HorizontalBarChart data={stats.byAlarmLevel} color="bg-red-600" />
+            <p className="text-xs text-muted-foreground">
+              {stats.escalatedCount.toLocaleString()} upgraded after dispatch
+            </p>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium">Data Quality</CardTitle>
@@ -0,0 +1,171 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { IncidentStatusBadge } from "@/components/IncidentStatusBadge";
+import { FIRE_STATIONS } from "@/lib/fire-stations";
+import { resolveUnit } from "@/lib/apparatus-roster";
+import { formatTimeCommitted, isUnitCommitted, withRosterApparatus } from "@/lib/unit-status";
+import { FireIncident } from "@/types/incident";
+import { UnitStatus } from "@/types/unit";
+
+type UnitFilter = "all" | "committed" | "available";
+
+interface UnitStatusBoardProps {
+  units: UnitStatus[];
+  incidents: FireIncident[];
+  loading: boolean;
+  onIncidentSelect: (incident: FireIncident) => void;
+}
+
+const STATION_NAMES = new Map(FIRE_STATIONS.map((station) => [station.id, station.name]));
+
+// The roster's station for the unit, else the one the registry derived from its number
+function getStationName(unit: UnitStatus): string | undefined {
+  return resolveUnit(unit.unitId).station?.name ?? (unit.homeStation ? STATION_NAMES.get(unit.homeStation) : undefined);
+}
+
+function compareUnits(a: UnitStatus, b: UnitStatus): number {
+  // Committed first, longest committed at the top; then by name
+  if (a.assignment && b.assignment) {
+    return new Date(a.assignment.committedSince).getTime() - new Date(b.assignment.committedSince).getTime();
+  }
+  if (a.assignment) return -1;
+  if (b.assignment) return 1;
+  return a.unitId.localeCompare(b.unitId, undefined, { numeric: true });
+}
+
+export function UnitStatusBoard({ units: registeredUnits, incidents, loading, onIncidentSelect }: UnitStatusBoardProps) {
+  const [search, setSearch] = useState("");
+  const [filter, setFilter] = useState<UnitFilter>("all");
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const units = useMemo(() => withRosterApparatus(registeredUnits), [registeredUnits]);
+
+  const incidentsById = useMemo(
+    () => new Map(incidents.map((incident) => [incident.traffic_report_id, incident])),
+    [incidents]
+  );
+
+  const committedCount = useMemo(() => units.filter(isUnitCommitted).length, [units]);
+
+  const visibleUnits = useMemo(() => {
+    const query = search.trim().toLowerCase();
+
+    return units
+      .filter((unit) => {
+        if (filter === "committed" && !isUnitCommitted(unit)) return false;
+        if (filter === "available" && isUnitCommitted(unit)) return false;
+        if (!query) return true;
+
+        return [
+          unit.unitId,
+          unit.type,
+          getStationName(unit),
+          unit.esd ? `ESD ${unit.esd}` : undefined,
+          unit.assignment?.callType,
+          unit.assignment?.address,
+        ].some((field) => field?.toLowerCase().includes(query));
+      })
+      .sort(compareUnits);
+  }, [units, filter, search]);
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 md:p-6">
+      <div className="grid grid-cols-3 gap-3 mb-6">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Units</p>
+            <p className="text-2xl font-bold">{units.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Committed</p>
+            <p className="text-2xl font-bold text-red-600">{committedCount}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Available</p>
+            <p className="text-2xl font-bold text-emerald-600">{units.length - committedCount}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3 mb-4">
+        <Input
+          placeholder="Search units..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="md:max-w-xs"
+        />
+        <Tabs value={filter} onValueChange={(v) => setFilter(v as UnitFilter)}>
+          <TabsList>
+            <TabsTrigger value="all">All</TabsTrigger>
+            <TabsTrigger value="committed">Committed</TabsTrigger>
+            <TabsTrigger value="available">Available</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {loading && registeredUnits.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">Loading units...</p>
+      ) : visibleUnits.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">No units found</p>
+      ) : (
+        <div className="border rounded-lg divide-y">
+          {visibleUnits.map((unit) => {
+            const station = getStationName(unit);
+            const incident = unit.assignment ? incidentsById.get(unit.assignment.incidentId) : undefined;
+
+            return (
+              <div key={unit.unitId} className="flex items-center gap-3 px-3 py-2">
+                <span
+                  className={`w-2.5 h-2.5 rounded-full shrink-0 ${unit.assignment ? "bg-red-600" : "bg-emerald-600"}`}
+                  title={unit.assignment ? "Committed" : "Available"}
+                />
+                <div className="w-32 shrink-0">
+                  <p className="text-sm font-medium">{unit.unitId}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {[station, unit.esd ? `ESD ${unit.esd}` : undefined].filter(Boolean).join(" · ") || unit.type}
+                  </p>
+                </div>
+                {unit.assignment ? (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => incident && onIncidentSelect(incident)}
+                      disabled={!incident}
+                      className="flex-1 min-w-0 text-left rounded px-1 -mx-1 enabled:hover:bg-muted transition-colors"
+                    >
+                      <p className="text-sm truncate">{unit.assignment.callType || "Unknown call"}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {unit.assignment.address && unit.assignment.address !== "?" ? unit.assignment.address : "No address"}
+                      </p>
+                    </button>
+                    {unit.assignment.incidentStatus && (
+                      <IncidentStatusBadge status={unit.assignment.incidentStatus} />
+                    )}
+                    <span className="text-sm tabular-nums text-muted-foreground w-16 text-right shrink-0">
+                      {formatTimeCommitted(unit.assignment.committedSince, now)}
+                    </span>
+                  </>
+                ) : (
+                  <span className="flex-1 text-sm text-muted-foreground">Available</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
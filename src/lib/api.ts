@@ -1,6 +1,25 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { FireIncident } from '@/types/incident';
-import { supabase, SupabaseIncident } from '@/lib/supabase';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { FilterState, FireIncident, IncidentEscalation, IncidentTransmission } from '@/types/incident';
+import { UnitStatus } from '@/types/unit';
+import { buildIncidentSearchParams, getDateWindow } from '@/lib/incident-query';
+import {
+  clearIncidentStore,
+  getStoredSyncCursor,
+  migrateLocalStorageCache,
+  queryStoredIncidents,
+  saveIncidentChanges,
+  saveIncidentSnapshot,
+} from '@/lib/incident-store';
+import {
+  INCIDENT_SELECT,
+  supabase,
+  SupabaseEscalation,
+  SupabaseIncident,
+  SupabaseIncidentDeletion,
+  SupabaseIncidentPage,
+  SupabaseTransmission,
+  SupabaseUnitStatus,
+} from '@/lib/supabase';
 
 function parseLocation(location: string | null): [number, number] | null {
   if (!location) return null;
@@ -32,6 +51,34 @@ function parseLocation(location: string | null): [number, number] | null {
   return null;
 }
 
+function convertTransmissions(transmissions: SupabaseTransmission[] | undefined): IncidentTransmission[] | undefined {
+  if (!transmissions || transmissions.length === 0) return undefined;
+
+  return [...transmissions]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .map((transmission) => ({
+      id: transmission.external_id,
+      timestamp: transmission.timestamp,
+      audioUrl: transmission.audio_url || undefined,
+      transcript: transmission.raw_transcript || undefined,
+      callType: transmission.call_type || undefined,
+      units: transmission.units || undefined,
+      duration: transmission.duration || undefined,
+    }));
+}
+
+function convertEscalations(escalations: SupabaseEscalation[] | undefined): IncidentEscalation[] | undefined {
+  if (!escalations || escalations.length === 0) return undefined;
+
+  return [...escalations]
+    .sort((a, b) => new Date(a.escalated_at).getTime() - new Date(b.escalated_at).getTime())
+    .map((escalation) => ({
+      fromLevel: escalation.from_level || undefined,
+      toLevel: escalation.to_level,
+      escalatedAt: escalation.escalated_at,
+    }));
+}
+
 function convertSupabaseToFireIncident(incident: SupabaseIncident): FireIncident {
   const coordinates = parseLocation(incident.location);
 
@@ -49,15 +96,22 @@ function convertSupabaseToFireIncident(incident: SupabaseIncident): FireIncident
     latitude: coordinates ? coordinates[1].toString() : '0',
     longitude: coordinates ? coordinates[0].toString() : '0',
     address: incident.address,
-    traffic_report_status: 'ACTIVE' as const,
-    traffic_report_status_date_time: incident.timestamp,
-    agency: 'Austin Fire Department',
+    traffic_report_status: incident.status === 'cleared' ? 'ARCHIVED' : 'ACTIVE',
+    traffic_report_status_date_time: incident.status_updated_at || incident.timestamp,
+    lifecycleStatus: incident.status || undefined,
+    agency: incident.agency || 'Austin Fire Department',
     incidentType: incident.incident_type,
     units: incident.units,
     channels: incident.channels,
     audioUrl: incident.audio_url || undefined,
     rawTranscript: incident.raw_transcript || undefined,
     estimatedResolutionMinutes: incident.estimated_resolution_minutes || undefined,
+    geocodePrecision: incident.geocode_precision || undefined,
+    geocodeProvider: incident.geocode_provider || undefined,
+    geocodeVariant: incident.geocode_variant || undefined,
+    transmissions: convertTransmissions(incident.incident_transmissions),
+    alarmLevel: incident.alarm_level || undefined,
+    escalations: convertEscalations(incident.incident_escalations),
   };
 }
 
@@ -133,11 +187,21 @@ function deduplicateIncidents(incidents: FireIncident[]): FireIncident[] {
   return finalDeduped;
 }
 
-export function removeUnitsFromOlderIncidents(incidents: FireIncident[]): FireIncident[] {
+/**
+ * Shows each unit on one incident only. A unit the unit board has committed stays on the
+ * incident it is committed to; any other unit is assumed to be on the newest incident
+ * naming it.
+ */
+export function removeUnitsFromOlderIncidents(incidents: FireIncident[], units: UnitStatus[] = []): FireIncident[] {
   const sortedByTime = [...incidents].sort((a, b) =>
     new Date(b.published_date).getTime() - new Date(a.published_date).getTime()
   );
 
+  const committedTo = new Map<string, string>();
+  for (const unit of units) {
+    if (unit.assignment) committedTo.set(unit.unitId, unit.assignment.incidentId);
+  }
+
   const assignedUnits = new Set<string>();
   const result: FireIncident[] = [];
 
@@ -147,7 +211,11 @@ export function removeUnitsFromOlderIncidents(incidents: FireIncident[]): FireIn
       continue;
     }
 
-    const availableUnits = inc.units.filter(unit => !assignedUnits.has(unit));
+    const availableUnits = inc.units.filter(unit => {
+      const committedIncidentId = committedTo.get(unit);
+      if (committedIncidentId) return committedIncidentId === inc.traffic_report_id;
+      return !assignedUnits.has(unit);
+    });
 
     if (availableUnits.length === 0) {
       continue;
@@ -164,28 +232,236 @@ export function removeUnitsFromOlderIncidents(incidents: FireIncident[]): FireIn
   return result;
 }
 
-async function fetchIncidentsFromSupabase(): Promise<FireIncident[]> {
+// Bump when INCIDENT_SELECT or convertSupabaseToFireIncident changes, so cached incidents
+// are replaced by a full sync rather than patched
+const SYNC_VERSION = 1;
+// Each delta sync reads back this far past the cursor: a row written by a transaction
+// that commits late carries an earlier timestamp than rows already seen
+const SYNC_OVERLAP_MS = 2 * 60 * 1000;
+// A cursor older than this is a gap too wide to patch over; the client syncs in full
+const MAX_CURSOR_AGE_MS = 24 * 60 * 60 * 1000;
+// A delta sync with more changes than this reloads the snapshot instead
+const CHANGES_LIMIT = 1000;
+
+// A row of incident_sync_marks() (023_incident_sync.sql)
+interface SupabaseSyncMarks {
+  schema_version: number;
+  change_seq: number | null;
+  created_at: string | null;
+  updated_at: string | null;
+  deleted_at: string | null;
+}
+
+// How far the local incidents are current: high-water marks read before the last sync
+interface SyncCursor {
+  version: number;
+  schemaVersion: number;
+  changeSeq: number;
+  createdAt: string | null;
+  updatedAt: string | null;
+  deletedAt: string | null;
+  syncedAt: string;
+}
+
+function isCursorCurrent(cursor: SyncCursor | null, now: Date = new Date()): cursor is SyncCursor {
+  return cursor !== null &&
+    cursor.version === SYNC_VERSION &&
+    now.getTime() - new Date(cursor.syncedAt).getTime() < MAX_CURSOR_AGE_MS;
+}
+
+// Read before a sync: anything changing while it runs comes after these marks
+async function fetchSyncMarks(): Promise<SyncCursor | null> {
+  const { data, error } = await supabase.rpc('incident_sync_marks').single();
+
+  if (error) {
+    console.error('Error fetching incident sync marks:', error);
+    return null;
+  }
+
+  const marks = data as SupabaseSyncMarks;
+  return {
+    version: SYNC_VERSION,
+    schemaVersion: marks.schema_version,
+    changeSeq: marks.change_seq ?? 0,
+    createdAt: marks.created_at,
+    updatedAt: marks.updated_at,
+    deletedAt: marks.deleted_at,
+    syncedAt: new Date().toISOString(),
+  };
+}
+
+interface IncidentSnapshot {
+  incidents: FireIncident[];
+  // Null when the marks couldn't be read, so the next sync is a full one too
+  cursor: SyncCursor | null;
+}
+
+// Null when the incidents couldn't be fetched, e.g. offline
+async function fetchIncidentsFromSupabase(): Promise<IncidentSnapshot | null> {
   try {
+    const cursor = await fetchSyncMarks();
+
     const { data, error } = await supabase
       .from('incidents')
-      .select('id, call_type, address, location, units, channels, timestamp, audio_url, raw_transcript, estimated_resolution_minutes, incident_type, group_id, duration, external_id, created_at')
+      .select(INCIDENT_SELECT)
       .order('timestamp', { ascending: false })
       .limit(1000);
 
     if (error) {
       console.error('Error fetching incidents from Supabase:', error);
-      return [];
+      return null;
     }
 
     const incidents = (data as SupabaseIncident[]).map(convertSupabaseToFireIncident);
-    return deduplicateIncidents(incidents);
+    return { incidents: deduplicateIncidents(incidents), cursor };
   } catch (error) {
     console.error('Error fetching incidents:', error);
-    return [];
+    return null;
   }
 }
 
-const CACHE_KEY_INCIDENTS = 'supabase_incidents_cache';
+interface IncidentChanges {
+  changed: FireIncident[];
+  deletedIds: string[];
+  // False when there were more than CHANGES_LIMIT changes
+  complete: boolean;
+}
+
+function sinceMark(mark: string | null): string {
+  return new Date(mark ? new Date(mark).getTime() - SYNC_OVERLAP_MS : 0).toISOString();
+}
+
+// Incidents created, updated or deleted after the cursor's high-water marks
+async function fetchIncidentChanges(cursor: SyncCursor): Promise<IncidentChanges> {
+  const [changes, deletions] = await Promise.all([
+    supabase
+      .from('incidents')
+      .select(INCIDENT_SELECT)
+      .or(`created_at.gt.${sinceMark(cursor.createdAt)},updated_at.gt.${sinceMark(cursor.updatedAt)}`)
+      .order('updated_at')
+      .limit(CHANGES_LIMIT),
+    supabase
+      .from('incident_deletions')
+      .select('incident_id, external_id, change_seq, deleted_at')
+      .gt('deleted_at', sinceMark(cursor.deletedAt))
+      .order('deleted_at')
+      .limit(CHANGES_LIMIT),
+  ]);
+
+  if (changes.error || deletions.error) {
+    throw new Error(`Failed to fetch incident changes: ${(changes.error || deletions.error)!.message}`);
+  }
+
+  return toIncidentChanges(changes.data as SupabaseIncident[], deletions.data as SupabaseIncidentDeletion[]);
+}
+
+/**
+ * Changes numbered strictly between two change_seq values. A gap in the numbers seen over
+ * realtime is often empty here: numbers taken by failed or rolled-back writes are never
+ * used, and a row updated again since has moved on to a later number.
+ */
+async function fetchIncidentChangesBetween(afterSeq: number, beforeSeq: number): Promise<IncidentChanges> {
+  const [changes, deletions] = await Promise.all([
+    supabase
+      .from('incidents')
+      .select(INCIDENT_SELECT)
+      .gt('change_seq', afterSeq)
+      .lt('change_seq', beforeSeq)
+      .limit(CHANGES_LIMIT),
+    supabase
+      .from('incident_deletions')
+      .select('incident_id, external_id, change_seq, deleted_at')
+      .gt('change_seq', afterSeq)
+      .lt('change_seq', beforeSeq)
+      .limit(CHANGES_LIMIT),
+  ]);
+
+  if (changes.error || deletions.error) {
+    throw new Error(`Failed to fetch incident changes: ${(changes.error || deletions.error)!.message}`);
+  }
+
+  return toIncidentChanges(changes.data as SupabaseIncident[], deletions.data as SupabaseIncidentDeletion[]);
+}
+
+function toIncidentChanges(changedRows: SupabaseIncident[], deletionRows: SupabaseIncidentDeletion[]): IncidentChanges {
+  return {
+    changed: changedRows.map(convertSupabaseToFireIncident),
+    deletedIds: deletionRows.flatMap((row) => (row.external_id ? [row.external_id] : [])),
+    complete: changedRows.length < CHANGES_LIMIT && deletionRows.length < CHANGES_LIMIT,
+  };
+}
+
+/**
+ * Applies changed and deleted incidents to a list. A changed incident keeps the
+ * transmissions and escalations already loaded when it arrives without them, as realtime
+ * payloads do. With addMissing false, only incidents already in the list are updated.
+ */
+function applyIncidentChanges(
+  incidents: FireIncident[],
+  changed: FireIncident[],
+  deletedIds: string[],
+  addMissing: boolean
+): FireIncident[] {
+  const byId = new Map(incidents.map((incident) => [incident.traffic_report_id, incident]));
+
+  for (const incident of changed) {
+    const existing = byId.get(incident.traffic_report_id);
+    if (!existing && !addMissing) continue;
+
+    byId.set(incident.traffic_report_id, existing ? {
+      ...incident,
+      transmissions: incident.transmissions ?? existing.transmissions,
+      escalations: incident.escalations ?? existing.escalations,
+    } : incident);
+  }
+
+  for (const id of deletedIds) {
+    byId.delete(id);
+  }
+
+  return deduplicateIncidents([...byId.values()]);
+}
+
+async function fetchIncidentPage(params: URLSearchParams): Promise<SupabaseIncidentPage> {
+  const response = await fetch(`/api/incidents?${params}`);
+  if (!response.ok) {
+    throw new Error(`Incident search failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+// The filters being paged through with GET /api/incidents
+interface IncidentPageQuery {
+  params: string;
+  nextCursor: string | null;
+  isLoading: boolean;
+  // Until the first page arrives, the list shows matching incidents from the store
+  hasPage: boolean;
+}
+
+// Paged incidents alongside the latest snapshot; the snapshot's copy of an incident wins
+function mergeIncidentPages(latest: FireIncident[], paged: FireIncident[]): FireIncident[] {
+  if (paged.length === 0) return latest;
+
+  const byId = new Map(paged.map((incident) => [incident.traffic_report_id, incident]));
+  for (const incident of latest) {
+    byId.set(incident.traffic_report_id, incident);
+  }
+  return deduplicateIncidents([...byId.values()]);
+}
+
+// Saving runs alongside the UI; a failed write only costs a larger sync next visit
+function persistIncidentChanges(changed: FireIncident[], deletedIds: string[] = [], syncCursor?: SyncCursor) {
+  saveIncidentChanges(changed, deletedIds, syncCursor).catch((error) => {
+    console.error('Failed to save incidents:', error);
+  });
+}
+
+function persistIncidentSnapshot(snapshot: FireIncident[], syncCursor?: SyncCursor, replace = false) {
+  saveIncidentSnapshot(snapshot, syncCursor, replace).catch((error) => {
+    console.error('Failed to save incidents:', error);
+  });
+}
 
 export function useFireIncidents() {
   const [incidents, setIncidents] = useState<FireIncident[]>([]);
@@ -196,6 +472,18 @@ export function useFireIncidents() {
   const [isInitialFetchComplete, setIsInitialFetchComplete] = useState(false);
   const isInitializedRef = useRef(false);
   const isFetchingRef = useRef(false);
+  const [pagedIncidents, setPagedIncidents] = useState<FireIncident[]>([]);
+  const [hasMoreIncidents, setHasMoreIncidents] = useState(false);
+  const [isLoadingMoreIncidents, setIsLoadingMoreIncidents] = useState(false);
+  const pageQueryRef = useRef<IncidentPageQuery | null>(null);
+  // Highest change_seq applied, with any skipped before it in missedSeqRef; null until a
+  // snapshot loads
+  const changeSeqRef = useRef<number | null>(null);
+  const syncCursorRef = useRef<SyncCursor | null>(null);
+  const isSyncingRef = useRef(false);
+  // change_seq values skipped over by realtime events, still to be checked with the server
+  const missedSeqRef = useRef<{ after: number; before: number } | null>(null);
+  const gapCheckTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const fetchData = useCallback(async (manual = false) => {
     if (isFetchingRef.current) {
@@ -212,12 +500,27 @@ export function useFireIncidents() {
 
       console.log('=== FETCH START (SUPABASE) ===');
 
-      const fetchedIncidents = await fetchIncidentsFromSupabase();
+      const snapshot = await fetchIncidentsFromSupabase();
 
+      if (!snapshot) {
+        console.log('⚠️ Fetch failed, keeping the incidents already loaded');
+        setIsLoading(false);
+        setIsInitialFetchComplete(true);
+        return;
+      }
+
+      const { incidents: fetchedIncidents, cursor } = snapshot;
       console.log('Fetched incidents from Supabase:', fetchedIncidents.length);
 
+      // Stored incidents are dropped when the sync version or schema changed under them
+      const previous = syncCursorRef.current;
+      const replace = previous !== null && cursor !== null &&
+        (previous.version !== cursor.version || previous.schemaVersion !== cursor.schemaVersion);
+
+      syncCursorRef.current = cursor;
+      changeSeqRef.current = cursor?.changeSeq ?? null;
       setIncidents(fetchedIncidents);
-      localStorage.setItem(CACHE_KEY_INCIDENTS, JSON.stringify(fetchedIncidents));
+      persistIncidentSnapshot(fetchedIncidents, cursor ?? undefined, replace);
 
       setLastUpdated(new Date());
       setIsLoading(false);
@@ -235,30 +538,146 @@ export function useFireIncidents() {
     }
   }, []);
 
+  const applyChanges = useCallback((changed: FireIncident[], deletedIds: string[], syncCursor?: SyncCursor) => {
+    setIncidents((prev) => applyIncidentChanges(prev, changed, deletedIds, true));
+    setPagedIncidents((prev) => (prev.length > 0 ? applyIncidentChanges(prev, changed, deletedIds, false) : prev));
+    persistIncidentChanges(changed, deletedIds, syncCursor);
+  }, []);
+
+  // Fetches only the incidents changed since the last sync; a full fetch when there is
+  // no usable cursor, the schema changed or too much changed to patch
+  const syncIncidents = useCallback(async () => {
+    const cursor = syncCursorRef.current;
+    if (!isCursorCurrent(cursor)) {
+      await fetchData();
+      return;
+    }
+    if (isSyncingRef.current || isFetchingRef.current) return;
+
+    try {
+      isSyncingRef.current = true;
+      console.log('=== DELTA SYNC SINCE', cursor.updatedAt, '===');
+
+      const marks = await fetchSyncMarks();
+      if (!marks) return;
+
+      if (marks.schemaVersion !== cursor.schemaVersion) {
+        console.log('Incident schema changed, fetching all incidents');
+        await fetchData();
+        return;
+      }
+
+      const changes = await fetchIncidentChanges(cursor);
+      if (!changes.complete) {
+        console.log('Too many changes to sync, fetching all incidents');
+        await fetchData();
+        return;
+      }
+
+      console.log('Synced', changes.changed.length, 'changed and', changes.deletedIds.length, 'deleted incidents');
+      syncCursorRef.current = marks;
+      changeSeqRef.current = Math.max(changeSeqRef.current ?? 0, marks.changeSeq);
+      applyChanges(changes.changed, changes.deletedIds, marks);
+
+      setLastUpdated(new Date());
+      setIsLoading(false);
+      setIsInitialFetchComplete(true);
+    } catch (err) {
+      console.error('Error syncing incidents:', err);
+    } finally {
+      isSyncingRef.current = false;
+    }
+  }, [fetchData, applyChanges]);
+
+  // Fetches whatever the server has numbered inside the skipped change_seq values. Most
+  // gaps turn out empty; a full sync is only needed when too much is missing to patch.
+  const checkMissedChanges = useCallback(async () => {
+    const gap = missedSeqRef.current;
+    missedSeqRef.current = null;
+    if (!gap) return;
+
+    try {
+      const changes = await fetchIncidentChangesBetween(gap.after, gap.before);
+      if (!changes.complete) {
+        console.log('Too many missed changes to patch, resyncing incidents');
+        await syncIncidents();
+        return;
+      }
+
+      if (changes.changed.length > 0 || changes.deletedIds.length > 0) {
+        console.log('Recovered', changes.changed.length, 'changed and', changes.deletedIds.length, 'deleted incidents');
+        applyChanges(changes.changed, changes.deletedIds);
+      }
+    } catch (err) {
+      console.error('Error checking missed incident changes:', err);
+      await syncIncidents();
+    }
+  }, [applyChanges, syncIncidents]);
+
+  // Waits a moment so changes committed out of order can arrive first
+  const scheduleGapCheck = useCallback(() => {
+    if (gapCheckTimeoutRef.current) return;
+    gapCheckTimeoutRef.current = setTimeout(() => {
+      gapCheckTimeoutRef.current = null;
+      checkMissedChanges();
+    }, 1000);
+  }, [checkMissedChanges]);
+
+  // Advances past a realtime change, noting any numbers skipped before it for a check
+  const trackChangeSeq = useCallback((changeSeq: number) => {
+    const applied = changeSeqRef.current;
+    if (applied === null) return;
+
+    if (changeSeq > applied + 1) {
+      console.log('⚠️ Skipped incident changes', applied + 1, 'to', changeSeq - 1);
+      const missed = missedSeqRef.current;
+      missedSeqRef.current = missed
+        ? { after: Math.min(missed.after, applied), before: Math.max(missed.before, changeSeq) }
+        : { after: applied, before: changeSeq };
+      scheduleGapCheck();
+    }
+
+    changeSeqRef.current = Math.max(applied, changeSeq);
+  }, [scheduleGapCheck]);
+
   useEffect(() => {
     if (!isInitializedRef.current) {
       isInitializedRef.current = true;
 
       console.log('=== INITIALIZATION ===');
 
-      try {
-        const cachedIncidents = localStorage.getItem(CACHE_KEY_INCIDENTS);
-
-        if (cachedIncidents) {
-          const parsed = JSON.parse(cachedIncidents) as FireIncident[];
-          console.log('Loaded from cache:', parsed.length, 'incidents');
-          setIncidents(parsed);
-          setIsLoading(false);
+      (async () => {
+        try {
+          await migrateLocalStorageCache();
+
+          const [stored, cursor] = await Promise.all([
+            queryStoredIncidents({ limit: 1000 }),
+            getStoredSyncCursor<SyncCursor>(),
+          ]);
+
+          if (stored.length > 0) {
+            console.log('Loaded from store:', stored.length, 'incidents');
+            setIncidents(deduplicateIncidents(stored));
+            setIsLoading(false);
+
+            // The store is only as current as the cursor saved with it
+            if (cursor) {
+              syncCursorRef.current = cursor;
+              changeSeqRef.current = cursor.changeSeq;
+            }
+          }
+        } catch (error) {
+          console.error('Failed to load stored incidents:', error);
         }
-      } catch (error) {
-        console.error('Failed to load cache:', error);
-      }
 
-      console.log('=== INITIALIZATION END ===\n');
+        console.log('=== INITIALIZATION END ===\n');
 
-      fetchData();
+        syncIncidents();
+      })();
     }
 
+    let hasSubscribed = false;
+
     const subscription = supabase
       .channel('incidents_channel')
       .on(
@@ -266,29 +685,154 @@ export function useFireIncidents() {
         { event: 'INSERT', schema: 'public', table: 'incidents' },
         (payload) => {
           console.log('New incident received via realtime:', payload.new);
-          const newIncident = convertSupabaseToFireIncident(payload.new as SupabaseIncident);
-          setIncidents(prev => deduplicateIncidents([newIncident, ...prev]));
+          const row = payload.new as SupabaseIncident;
+          applyChanges([convertSupabaseToFireIncident(row)], []);
+          trackChangeSeq(row.change_seq);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'incidents' },
+        (payload) => {
+          console.log('Incident updated via realtime:', payload.new);
+          const row = payload.new as SupabaseIncident;
+          applyChanges([convertSupabaseToFireIncident(row)], []);
+          trackChangeSeq(row.change_seq);
         }
       )
-      .subscribe();
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'incident_deletions' },
+        (payload) => {
+          console.log('Incident deleted via realtime:', payload.new);
+          const row = payload.new as SupabaseIncidentDeletion;
+          if (row.external_id) {
+            applyChanges([], [row.external_id]);
+          }
+          trackChangeSeq(row.change_seq);
+        }
+      )
+      .subscribe((status) => {
+        if (status !== 'SUBSCRIBED') return;
+        // Changes made while the connection was down never arrive as events
+        if (hasSubscribed) {
+          console.log('Realtime reconnected, resyncing incidents');
+          syncIncidents();
+        }
+        hasSubscribed = true;
+      });
+
+    // Catches anything realtime didn't deliver
+    const refreshInterval = setInterval(syncIncidents, 60 * 1000);
 
-    const refreshInterval = setInterval(fetchData, 60 * 1000);
+    // Back from offline: catch up without waiting for the interval
+    const handleOnline = () => syncIncidents();
+    window.addEventListener('online', handleOnline);
 
     return () => {
       subscription.unsubscribe();
       clearInterval(refreshInterval);
+      window.removeEventListener('online', handleOnline);
+      if (gapCheckTimeoutRef.current) {
+        clearTimeout(gapCheckTimeoutRef.current);
+        gapCheckTimeoutRef.current = null;
+      }
     };
-  }, [fetchData]);
+  }, [applyChanges, syncIncidents, trackChangeSeq]);
 
   const manualRefetch = useCallback(() => fetchData(true), [fetchData]);
 
+  const loadIncidentPage = useCallback(async (query: IncidentPageQuery, cursor: string | null) => {
+    query.isLoading = true;
+    setIsLoadingMoreIncidents(true);
+
+    try {
+      const params = new URLSearchParams(query.params);
+      if (cursor) {
+        params.set('cursor', cursor);
+      }
+
+      const page = await fetchIncidentPage(params);
+      if (pageQueryRef.current !== query) return;
+
+      console.log('Loaded incident page:', page.incidents.length, 'incidents');
+      const incidents = page.incidents.map(convertSupabaseToFireIncident);
+      setPagedIncidents((prev) => (cursor ? [...prev, ...incidents] : incidents));
+      persistIncidentChanges(incidents);
+      query.hasPage = true;
+      query.nextCursor = page.nextCursor;
+      setHasMoreIncidents(page.nextCursor !== null);
+    } catch (err) {
+      console.error('Error loading incident page:', err);
+    } finally {
+      query.isLoading = false;
+      if (pageQueryRef.current === query) {
+        setIsLoadingMoreIncidents(false);
+      }
+    }
+  }, []);
+
+  // Starts paging through the incidents matching the filters. DYNAMIC shows open
+  // incidents only, which the snapshot already has.
+  const loadIncidents = useCallback((filters: FilterState) => {
+    if (filters.dateRange === 'DYNAMIC') {
+      pageQueryRef.current = null;
+      setPagedIncidents([]);
+      setHasMoreIncidents(false);
+      setIsLoadingMoreIncidents(false);
+      return;
+    }
+
+    const now = new Date();
+    const query: IncidentPageQuery = {
+      params: buildIncidentSearchParams(filters, now).toString(),
+      nextCursor: null,
+      isLoading: false,
+      hasPage: false,
+    };
+    pageQueryRef.current = query;
+    setHasMoreIncidents(false);
+    loadIncidentPage(query, null);
+
+    // Incidents seen before narrow the store by window, units and type; the list applies
+    // the rest of the filters
+    const { start, end } = getDateWindow(filters, now);
+    queryStoredIncidents({
+      start,
+      end,
+      units: filters.units,
+      incidentType: filters.incidentType !== 'ALL' ? filters.incidentType : undefined,
+      limit: 1000,
+    })
+      .then((stored) => {
+        if (pageQueryRef.current === query && !query.hasPage) {
+          setPagedIncidents(stored);
+        }
+      })
+      .catch((error) => console.error('Failed to query stored incidents:', error));
+  }, [loadIncidentPage]);
+
+  const loadMoreIncidents = useCallback(() => {
+    const query = pageQueryRef.current;
+    if (!query || !query.nextCursor || query.isLoading) return;
+    loadIncidentPage(query, query.nextCursor);
+  }, [loadIncidentPage]);
+
+  const allIncidents = useMemo(() => mergeIncidentPages(incidents, pagedIncidents), [incidents, pagedIncidents]);
+
   const resetStorage = useCallback(() => {
     console.log('=== RESET STORAGE ===');
 
-    localStorage.removeItem(CACHE_KEY_INCIDENTS);
+    clearIncidentStore().catch((error) => console.error('Failed to clear stored incidents:', error));
 
     isInitializedRef.current = false;
 
+    pageQueryRef.current = null;
+    changeSeqRef.current = null;
+    missedSeqRef.current = null;
+    syncCursorRef.current = null;
+    setPagedIncidents([]);
+    setHasMoreIncidents(false);
     setIncidents([]);
     setIsLoading(true);
     setIsInitialFetchComplete(false);
@@ -302,13 +846,68 @@ export function useFireIncidents() {
   }, [fetchData]);
 
   return {
-    incidents,
+    incidents: allIncidents,
     error,
     lastUpdated,
     isManualRefresh,
     isLoading,
     isInitialFetchComplete,
     refetch: manualRefetch,
-    resetStorage
+    resetStorage,
+    loadIncidents,
+    loadMoreIncidents,
+    hasMoreIncidents,
+    isLoadingMoreIncidents,
   };
-}
\ No newline at end of file
+}
+
+function convertSupabaseToUnitStatus(unit: SupabaseUnitStatus): UnitStatus {
+  return {
+    unitId: unit.unit_id,
+    type: unit.type,
+    homeStation: unit.home_station || undefined,
+    esd: unit.esd || undefined,
+    lastSeenAt: unit.last_seen_at,
+    assignment: unit.incident_external_id && unit.committed_since ? {
+      incidentId: unit.incident_external_id,
+      callType: unit.incident_call_type || undefined,
+      address: unit.incident_address || undefined,
+      incidentStatus: unit.incident_status || undefined,
+      committedSince: unit.committed_since,
+    } : undefined,
+  };
+}
+
+/** Every registered unit and its current assignment, refreshed every minute. */
+export function useUnitStatus() {
+  const [units, setUnits] = useState<UnitStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchUnits = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('unit_status')
+        .select('unit_id, type, home_station, esd, last_seen_at, incident_external_id, incident_call_type, incident_address, incident_status, committed_since')
+        .order('unit_id');
+
+      if (error) {
+        console.error('Error fetching unit status from Supabase:', error);
+        return;
+      }
+
+      setUnits((data as SupabaseUnitStatus[]).map(convertSupabaseToUnitStatus));
+    } catch (error) {
+      console.error('Error fetching unit status:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUnits();
+    const refreshInterval = setInterval(fetchUnits, 60 * 1000);
+    return () => clearInterval(refreshInterval);
+  }, [fetchUnits]);
+
+  return { units, isLoading, refetch: fetchUnits };
+}
@@ -0,0 +1,122 @@
+import { normalizeUnit } from "@shared/unit-names";
+import { FIRE_STATIONS, FireStation } from "./fire-stations";
+
+// A piece of apparatus and the station that houses it
+export interface Apparatus {
+  unit: string; // canonical name, e.g. "Engine 3"
+  type: string;
+  number: string;
+  stationId: string;
+}
+
+// Apparatus housed at each station in FIRE_STATIONS, by station id
+const ROSTER_BY_STATION: Record<string, string[]> = {
+  // Austin Fire Department
+  FS0001: ["Engine 1", "Truck 1", "Medic 1"],
+  FS0002: ["Engine 2", "Medic 2"],
+  FS0003: ["Engine 3", "Truck 3"],
+  FS0004: ["Engine 4", "Truck 4", "Medic 4"],
+  FS0005: ["Engine 5", "Truck 5"],
+  FS0006: ["Engine 6", "Medic 6"],
+  FS0007: ["Engine 7", "Medic 7"],
+  FS0008: ["Engine 8", "Truck 8"],
+  FS0009: ["Engine 9", "Medic 9"],
+  FS0010: ["Engine 10"],
+  FS0011: ["Engine 11", "Truck 11"],
+  FS0012: ["Engine 12", "Medic 12"],
+  FS0014: ["Engine 14", "Truck 14", "Rescue 14", "Medic 14"],
+  FS0015: ["Engine 15", "Medic 15"],
+  FS0016: ["Engine 16"],
+  FS0017: ["Engine 17"],
+  FS0018: ["Engine 18", "Medic 18"],
+  FS0019: ["Engine 19"],
+  FS0020: ["Engine 20", "Truck 20"],
+  FS0021: ["Engine 21", "Truck 21", "Medic 21"],
+  FS0022: ["Engine 22", "Medic 22"],
+  FS0023: ["Engine 23"],
+  FS0024: ["Engine 24", "Truck 24"],
+  FS0025: ["Engine 25"],
+  FS0026: ["Engine 26", "Quint 26"],
+  FS0027: ["Engine 27", "Brush 27"],
+  FS0028: ["Engine 28", "Medic 28"],
+  FS0029: ["Engine 29", "Quint 29"],
+  FS0030: ["Engine 30", "Truck 30"],
+  FS0031: ["Engine 31", "Brush 31"],
+  FS0032: ["Engine 32"],
+  FS0033: ["Engine 33", "Truck 33", "Medic 33"],
+  FS0034: ["Engine 34"],
+  FS0035: ["Engine 35", "Truck 35"],
+  FS0036: ["Engine 36", "Quint 36"],
+  FS0037: ["Engine 37", "Truck 37"],
+  FS0038: ["Engine 38", "Quint 38"],
+  FS0039: ["Engine 39"],
+  FS0040: ["Engine 40", "Medic 40"],
+  FS0041: ["Engine 41"],
+  FS0042: ["Engine 42", "Truck 42"],
+  FS0043: ["Engine 43"],
+  FS0044: ["Engine 44", "Quint 44"],
+  FS0045: ["Engine 45", "Brush 45"],
+  FS0046: ["Engine 46", "Medic 46"],
+  FS0047: ["Engine 47"],
+  FS0048: ["Engine 48"],
+  FS0049: ["Engine 49", "Quint 49"],
+  FS0050: ["Engine 50"],
+  FS0051: ["Engine 51"],
+  FS0052: ["Engine 52", "Brush 52"],
+  FS0053: ["Engine 53", "Quint 53"],
+  FS0054: ["Engine 54"],
+
+  // Lake Travis Fire Rescue (ESD 6)
+  LTFR601: ["Engine 601", "Quint 601"],
+  LTFR602: ["Engine 602"],
+  LTFR603: ["Engine 603", "Brush 603"],
+  LTFR604: ["Engine 604"],
+  LTFR605: ["Engine 605"],
+  LTFR606: ["Engine 606"],
+
+  // Travis County Fire Rescue ESD 11
+  TCFR1101: ["Engine 1101", "Brush 1101"],
+
+  // Travis County ESD 12
+  "ESD12-1201": ["Engine 1201", "Quint 1201"],
+  "ESD12-1202": ["Engine 1202"],
+  "ESD12-1203": ["Engine 1203", "Brush 1203"],
+  "ESD12-1204": ["Engine 1204"],
+
+  // Westlake Fire Department (ESD 9)
+  WFD901: ["Engine 901"],
+  WFD902: ["Engine 902"],
+  WFD903: ["Engine 903"],
+};
+
+export const APPARATUS_ROSTER: Apparatus[] = Object.entries(ROSTER_BY_STATION).flatMap(
+  ([stationId, units]) =>
+    units.map((unit) => {
+      const [type, number] = unit.split(" ");
+      return { unit, type, number, stationId };
+    })
+);
+
+const APPARATUS_BY_UNIT = new Map(APPARATUS_ROSTER.map((apparatus) => [apparatus.unit, apparatus]));
+const STATIONS_BY_ID = new Map(FIRE_STATIONS.map((station) => [station.id, station]));
+
+/** Canonical name for a unit string ("E3" is "Engine 3"); other units are returned trimmed. */
+export function canonicalUnitName(unit: string): string {
+  return normalizeUnit(unit)?.id ?? unit.trim();
+}
+
+/** Resolves a parsed unit string to its canonical unit and, when on the roster, its station. */
+export function resolveUnit(unit: string): { unit: string; apparatus?: Apparatus; station?: FireStation } {
+  const canonical = canonicalUnitName(unit);
+  const apparatus = APPARATUS_BY_UNIT.get(canonical);
+
+  return {
+    unit: canonical,
+    apparatus,
+    station: apparatus ? STATIONS_BY_ID.get(apparatus.stationId) : undefined,
+  };
+}
+
+export function getStationApparatus(stationId: string): Apparatus[] {
+  return APPARATUS_ROSTER.filter((apparatus) => apparatus.stationId === stationId);
+}
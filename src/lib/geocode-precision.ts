@@ -0,0 +1,59 @@
+import { FireIncident, GeocodePrecision } from '@/types/incident';
+
+// Approximate error radius for each precision level. Rooftop and intersection matches
+// are treated as exact; interpolated points can be off by a block or so, and
+// street-level matches only tell us which street the call is on.
+const UNCERTAINTY_RADIUS_METERS: Record<GeocodePrecision, number> = {
+  rooftop: 0,
+  intersection: 0,
+  interpolated: 150,
+  street: 500,
+  none: 0,
+};
+
+const PRECISION_LABELS: Record<GeocodePrecision, string> = {
+  rooftop: 'Exact address',
+  intersection: 'Intersection',
+  interpolated: 'Estimated along block',
+  street: 'Street-level only',
+  none: 'Not geocoded',
+};
+
+export function isLowConfidenceGeocode(incident: FireIncident): boolean {
+  return getUncertaintyRadiusMeters(incident) > 0;
+}
+
+export function getUncertaintyRadiusMeters(incident: FireIncident): number {
+  return incident.geocodePrecision ? UNCERTAINTY_RADIUS_METERS[incident.geocodePrecision] : 0;
+}
+
+export function getGeocodePrecisionLabel(precision: GeocodePrecision): string {
+  return PRECISION_LABELS[precision];
+}
+
+/**
+ * Polygon approximating a circle of `radiusMeters` around `center`, for drawing
+ * uncertainty areas as a GeoJSON fill (MapLibre circle layers are sized in pixels).
+ */
+export function createCirclePolygon(
+  center: [number, number],
+  radiusMeters: number,
+  steps = 48
+): [number, number][] {
+  const [lng, lat] = center;
+  const earthRadius = 6378137;
+  const latRadians = (lat * Math.PI) / 180;
+  const coordinates: [number, number][] = [];
+
+  for (let i = 0; i <= steps; i++) {
+    const angle = (i / steps) * 2 * Math.PI;
+    const dx = radiusMeters * Math.cos(angle);
+    const dy = radiusMeters * Math.sin(angle);
+    coordinates.push([
+      lng + ((dx / (earthRadius * Math.cos(latRadians))) * 180) / Math.PI,
+      lat + ((dy / earthRadius) * 180) / Math.PI,
+    ]);
+  }
+
+  return coordinates;
+}
@@ -243,6 +243,7 @@ export function useNotifications() {
               notifyCallTypes: settings.notifyCallTypes,
               notifyUnits: settings.notifyUnits,
               notifyIncidentTypes: settings.notifyIncidentTypes,
+              notifyEscalations: settings.notifyEscalations,
             },
           }),
         });
@@ -319,6 +320,7 @@ export function useNotifications() {
               notifyCallTypes: settings.notifyCallTypes,
               notifyUnits: settings.notifyUnits,
               notifyIncidentTypes: settings.notifyIncidentTypes,
+              notifyEscalations: settings.notifyEscalations,
             },
           }),
         });
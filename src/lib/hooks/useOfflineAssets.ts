@@ -0,0 +1,28 @@
+import { useEffect } from 'react';
+
+function loadedStaticAssets(): string[] {
+  return performance
+    .getEntriesByType('resource')
+    .map((entry) => new URL(entry.name))
+    .filter((url) => url.origin === location.origin && url.pathname.startsWith('/_next/static/'))
+    .map((url) => url.href);
+}
+
+/**
+ * Hands the service worker the build assets this page loaded before the worker controlled
+ * it, so the first visit leaves an app shell that can boot offline.
+ */
+export function useOfflineAssets() {
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+
+    const sendAssets = () => {
+      navigator.serviceWorker.controller?.postMessage({ type: 'CACHE_ASSETS', urls: loadedStaticAssets() });
+    };
+
+    sendAssets();
+    navigator.serviceWorker.addEventListener('controllerchange', sendAssets);
+
+    return () => navigator.serviceWorker.removeEventListener('controllerchange', sendAssets);
+  }, []);
+}
@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+
+/** When the browser went offline, or null while it is online. */
+export function useOnlineStatus(): Date | null {
+  const [offlineSince, setOfflineSince] = useState<Date | null>(null);
+
+  useEffect(() => {
+    if (!navigator.onLine) {
+      setOfflineSince(new Date());
+    }
+
+    const handleOnline = () => setOfflineSince(null);
+    const handleOffline = () => setOfflineSince((prev) => prev ?? new Date());
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return offlineSince;
+}
@@ -0,0 +1,74 @@
+import { FilterState } from '@/types/incident';
+
+export interface DateWindow {
+  start?: Date;
+  end?: Date;
+}
+
+/** The time window a date range filter covers; open-ended for ALL and DYNAMIC. */
+export function getDateWindow(filters: FilterState, now: Date = new Date()): DateWindow {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  switch (filters.dateRange) {
+    case 'LAST_30_MINS':
+      return { start: new Date(now.getTime() - 30 * 60 * 1000), end: now };
+    case 'LAST_HOUR':
+      return { start: new Date(now.getTime() - 60 * 60 * 1000), end: now };
+    case 'LAST_4_HOURS':
+      return { start: new Date(now.getTime() - 4 * 60 * 60 * 1000), end: now };
+    case 'LAST_12_HOURS':
+      return { start: new Date(now.getTime() - 12 * 60 * 60 * 1000), end: now };
+    case 'TODAY':
+      return { start: today, end: new Date(today.getTime() + 24 * 60 * 60 * 1000) };
+    case 'WEEK':
+      return { start: new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000), end: now };
+    case 'CUSTOM': {
+      let start = filters.startDate;
+      let end = filters.endDate;
+
+      if (start && filters.startTime) {
+        const [hours, minutes] = filters.startTime.split(':').map(Number);
+        start = new Date(start);
+        start.setHours(hours, minutes, 0, 0);
+      }
+
+      if (end && filters.endTime) {
+        const [hours, minutes] = filters.endTime.split(':').map(Number);
+        end = new Date(end);
+        end.setHours(hours, minutes, 59, 999);
+      }
+
+      return { start, end };
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * Query string for GET /api/incidents. Relative date ranges are resolved against `now`
+ * here, in the browser, so "Today" and days of the week follow the user's time zone.
+ */
+export function buildIncidentSearchParams(filters: FilterState, now: Date = new Date()): URLSearchParams {
+  const params = new URLSearchParams();
+  const { start, end } = getDateWindow(filters, now);
+
+  if (start) params.set('start', start.toISOString());
+  if (end) params.set('end', end.toISOString());
+  if (filters.status !== 'ALL') params.set('status', filters.status);
+  if (filters.search.trim()) params.set('search', filters.search.trim());
+  if (filters.agency !== 'ALL') params.set('agency', filters.agency);
+  if (filters.incidentType !== 'ALL') params.set('types', filters.incidentType);
+  if (filters.units.length > 0) params.set('units', filters.units.join(','));
+  if (filters.daysOfWeek.length > 0) params.set('days', filters.daysOfWeek.join(','));
+  if (filters.showOnlyStaging) params.set('staging', 'true');
+
+  if (filters.bounds) {
+    const { west, south, east, north } = filters.bounds;
+    params.set('bbox', [west, south, east, north].join(','));
+  }
+
+  params.set('tz', Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+  return params;
+}
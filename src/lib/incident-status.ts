@@ -0,0 +1,46 @@
+import { FireIncident, IncidentLifecycleStatus, IncidentStatus } from '@/types/incident';
+
+const LIFECYCLE_LABELS: Record<IncidentLifecycleStatus, string> = {
+  dispatched: 'Dispatched',
+  working: 'Working',
+  upgraded: 'Upgraded',
+  under_control: 'Under control',
+  cleared: 'Cleared',
+};
+
+export const LIFECYCLE_STATUSES = Object.keys(LIFECYCLE_LABELS) as IncidentLifecycleStatus[];
+
+export function getLifecycleStatusLabel(status: IncidentLifecycleStatus): string {
+  return LIFECYCLE_LABELS[status];
+}
+
+/**
+ * Whether an incident is still ongoing. Uses the status the worker keeps when there is
+ * one; incidents from sources without it are open until their estimated resolution time.
+ */
+export function isIncidentOpen(incident: FireIncident, now: Date = new Date()): boolean {
+  if (incident.lifecycleStatus) {
+    return incident.lifecycleStatus !== 'cleared';
+  }
+
+  if (incident.estimatedResolutionMinutes) {
+    const minutesSinceIncident = (now.getTime() - new Date(incident.published_date).getTime()) / (1000 * 60);
+    return minutesSinceIncident <= incident.estimatedResolutionMinutes;
+  }
+
+  return true;
+}
+
+const ALARM_ORDINALS = ['', '1st', '2nd', '3rd', '4th', '5th'];
+
+export function getAlarmLevelLabel(level: number): string {
+  return `${ALARM_ORDINALS[level] ?? level} Alarm`;
+}
+
+export function matchesStatusFilter(incident: FireIncident, status: IncidentStatus): boolean {
+  if (status === 'ALL') return true;
+  if (status === 'ACTIVE' || status === 'ARCHIVED') {
+    return incident.traffic_report_status === status;
+  }
+  return incident.lifecycleStatus === status;
+}
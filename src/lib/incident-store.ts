@@ -0,0 +1,282 @@
+import { FireIncident } from '@/types/incident';
+
+// Incidents kept in the browser between visits, in IndexedDB so history isn't capped by
+// localStorage's quota and reads and writes don't serialize everything at once. Each
+// incident is stored with its time, units and type pulled out for indexes.
+
+const DB_NAME = 'incidents';
+const DB_VERSION = 1;
+const INCIDENTS_STORE = 'incidents';
+const META_STORE = 'meta';
+const SYNC_CURSOR_KEY = 'syncCursor';
+
+// Past this many incidents the oldest are dropped, so the store can't grow without bound
+const MAX_STORED_INCIDENTS = 10000;
+
+// The localStorage cache this store replaces
+const LEGACY_CACHE_KEY_INCIDENTS = 'supabase_incidents_cache';
+const LEGACY_CACHE_KEY_SYNC_CURSOR = 'supabase_incidents_sync_cursor';
+
+interface StoredIncident {
+  id: string;
+  timestamp: number;
+  units: string[];
+  incidentType: string | null;
+  incident: FireIncident;
+}
+
+export interface StoredIncidentQuery {
+  start?: Date;
+  end?: Date;
+  // Incidents with any of these units
+  units?: string[];
+  incidentType?: string;
+  limit?: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openIncidentStore(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const incidents = db.createObjectStore(INCIDENTS_STORE, { keyPath: 'id' });
+        incidents.createIndex('timestamp', 'timestamp');
+        incidents.createIndex('units', 'units', { multiEntry: true });
+        incidents.createIndex('incidentType', 'incidentType');
+        db.createObjectStore(META_STORE);
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+function toStored(incident: FireIncident): StoredIncident {
+  return {
+    id: incident.traffic_report_id,
+    timestamp: new Date(incident.published_date).getTime(),
+    units: incident.units ?? [],
+    incidentType: incident.incidentType,
+    incident,
+  };
+}
+
+/**
+ * Stored incidents matching the query, newest first. Filters on units or type read from
+ * their index; otherwise the time index is walked from the end of the window.
+ */
+export async function queryStoredIncidents(query: StoredIncidentQuery = {}): Promise<FireIncident[]> {
+  const db = await openIncidentStore();
+  const store = db.transaction(INCIDENTS_STORE).objectStore(INCIDENTS_STORE);
+  const start = query.start?.getTime();
+  const end = query.end?.getTime();
+  const limit = query.limit ?? Infinity;
+
+  let records: StoredIncident[];
+
+  if (query.units && query.units.length > 0) {
+    const byUnit = await Promise.all(
+      query.units.map((unit) => requestResult(store.index('units').getAll(unit) as IDBRequest<StoredIncident[]>))
+    );
+    records = [...new Map(byUnit.flat().map((record) => [record.id, record])).values()];
+  } else if (query.incidentType) {
+    records = await requestResult(store.index('incidentType').getAll(query.incidentType) as IDBRequest<StoredIncident[]>);
+  } else {
+    const range = start !== undefined && end !== undefined
+      ? IDBKeyRange.bound(start, end)
+      : start !== undefined
+        ? IDBKeyRange.lowerBound(start)
+        : end !== undefined
+          ? IDBKeyRange.upperBound(end)
+          : undefined;
+
+    records = [];
+    const request = store.index('timestamp').openCursor(range, 'prev');
+    await new Promise<void>((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || records.length >= limit) {
+          resolve();
+          return;
+        }
+        records.push(cursor.value as StoredIncident);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  return records
+    .filter((record) =>
+      (start === undefined || record.timestamp >= start) &&
+      (end === undefined || record.timestamp <= end) &&
+      (!query.incidentType || record.incidentType === query.incidentType)
+    )
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, limit)
+    .map((record) => record.incident);
+}
+
+// Deletes the oldest incidents past MAX_STORED_INCIDENTS, counted after the writes queued
+// before it in the same transaction
+function pruneOldestIncidents(incidents: IDBObjectStore): void {
+  const countRequest = incidents.count();
+  countRequest.onsuccess = () => {
+    let excess = countRequest.result - MAX_STORED_INCIDENTS;
+    if (excess <= 0) return;
+
+    const request = incidents.index('timestamp').openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || excess <= 0) return;
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    };
+  };
+}
+
+/**
+ * Writes changed incidents and removes deleted ones in one transaction, with the sync
+ * cursor they bring the store up to when given.
+ */
+export async function saveIncidentChanges<TCursor>(
+  changed: FireIncident[],
+  deletedIds: string[] = [],
+  syncCursor?: TCursor
+): Promise<void> {
+  const db = await openIncidentStore();
+  const transaction = db.transaction([INCIDENTS_STORE, META_STORE], 'readwrite');
+  const incidents = transaction.objectStore(INCIDENTS_STORE);
+
+  for (const incident of changed) {
+    incidents.put(toStored(incident));
+  }
+  for (const id of deletedIds) {
+    incidents.delete(id);
+  }
+  if (syncCursor !== undefined) {
+    transaction.objectStore(META_STORE).put(syncCursor, SYNC_CURSOR_KEY);
+  }
+  pruneOldestIncidents(incidents);
+
+  await transactionDone(transaction);
+}
+
+/**
+ * Writes a full snapshot of the newest incidents. Stored incidents from the time it covers
+ * that it doesn't include were deleted or merged away on the server, so they are dropped;
+ * with replace, everything stored before is.
+ */
+export async function saveIncidentSnapshot<TCursor>(
+  snapshot: FireIncident[],
+  syncCursor?: TCursor,
+  replace = false
+): Promise<void> {
+  const db = await openIncidentStore();
+  const transaction = db.transaction([INCIDENTS_STORE, META_STORE], 'readwrite');
+  const incidents = transaction.objectStore(INCIDENTS_STORE);
+  const records = snapshot.map(toStored);
+
+  if (replace) {
+    incidents.clear();
+  }
+  for (const record of records) {
+    incidents.put(record);
+  }
+  if (syncCursor !== undefined) {
+    transaction.objectStore(META_STORE).put(syncCursor, SYNC_CURSOR_KEY);
+  }
+
+  if (replace || records.length === 0) {
+    pruneOldestIncidents(incidents);
+  } else {
+    // Pruning counts the store, so it waits until the stale incidents are deleted
+    const ids = new Set(records.map((record) => record.id));
+    const oldest = Math.min(...records.map((record) => record.timestamp));
+    const request = incidents.index('timestamp').openCursor(IDBKeyRange.lowerBound(oldest));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        pruneOldestIncidents(incidents);
+        return;
+      }
+      if (!ids.has(cursor.primaryKey as string)) {
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+  }
+
+  await transactionDone(transaction);
+}
+
+export async function getStoredSyncCursor<TCursor>(): Promise<TCursor | null> {
+  const db = await openIncidentStore();
+  const store = db.transaction(META_STORE).objectStore(META_STORE);
+  const cursor = await requestResult(store.get(SYNC_CURSOR_KEY) as IDBRequest<TCursor | undefined>);
+  return cursor ?? null;
+}
+
+export async function clearIncidentStore(): Promise<void> {
+  const db = await openIncidentStore();
+  const transaction = db.transaction([INCIDENTS_STORE, META_STORE], 'readwrite');
+  transaction.objectStore(INCIDENTS_STORE).clear();
+  transaction.objectStore(META_STORE).clear();
+  await transactionDone(transaction);
+}
+
+/** Moves incidents cached in localStorage by earlier versions into the store, once. */
+export async function migrateLocalStorageCache(): Promise<void> {
+  const cachedIncidents = localStorage.getItem(LEGACY_CACHE_KEY_INCIDENTS);
+  if (!cachedIncidents) return;
+
+  const cachedCursor = localStorage.getItem(LEGACY_CACHE_KEY_SYNC_CURSOR);
+  let incidents: FireIncident[];
+  let syncCursor: unknown;
+  try {
+    incidents = JSON.parse(cachedIncidents) as FireIncident[];
+    syncCursor = cachedCursor ? JSON.parse(cachedCursor) : undefined;
+  } catch (error) {
+    // A corrupt cache would otherwise fail every load; the next sync refills the store
+    console.error('Discarding unreadable incident cache:', error);
+    localStorage.removeItem(LEGACY_CACHE_KEY_INCIDENTS);
+    localStorage.removeItem(LEGACY_CACHE_KEY_SYNC_CURSOR);
+    return;
+  }
+
+  await saveIncidentChanges(incidents, [], syncCursor);
+  localStorage.removeItem(LEGACY_CACHE_KEY_INCIDENTS);
+  localStorage.removeItem(LEGACY_CACHE_KEY_SYNC_CURSOR);
+
+  console.log('Moved', incidents.length, 'cached incidents to IndexedDB');
+}
@@ -14,6 +14,7 @@ export interface AppSettings {
   notifyCallTypes: string[];
   notifyUnits: string[];
   notifyIncidentTypes: ('fire' | 'medical' | 'traffic')[];
+  notifyEscalations: boolean;
 }
 
 const SETTINGS_KEY = 'app_settings';
@@ -30,6 +31,7 @@ const defaultSettings: AppSettings = {
   notifyCallTypes: [],
   notifyUnits: [],
   notifyIncidentTypes: [],
+  notifyEscalations: false,
 };
 
 interface SettingsContextType {
@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { GeocodePrecision, IncidentLifecycleStatus } from '@/types/incident';
 
 let supabaseInstance: SupabaseClient | null = null;
 
@@ -32,11 +33,17 @@ export const supabase = new Proxy({} as SupabaseClient, {
   }
 });
 
+// Incident columns and embedded rows the app reads, for both the table and search_incidents
+export const INCIDENT_SELECT = 'id, call_type, address, location, geocode_precision, geocode_provider, geocode_variant, units, channels, timestamp, audio_url, raw_transcript, estimated_resolution_minutes, incident_type, group_id, agency, duration, external_id, created_at, status, status_updated_at, alarm_level, change_seq, incident_escalations(from_level, to_level, escalated_at), incident_transmissions(id, external_id, timestamp, audio_url, raw_transcript, duration, call_type, units)';
+
 export interface SupabaseIncident {
   id: string;
   call_type: string;
   address: string;
   location: string | null;
+  geocode_precision: GeocodePrecision | null;
+  geocode_provider: string | null;
+  geocode_variant: string | null;
   units: string[];
   channels: string[];
   timestamp: string;
@@ -45,7 +52,62 @@ export interface SupabaseIncident {
   estimated_resolution_minutes: number | null;
   incident_type: 'fire' | 'medical' | 'traffic';
   group_id: string;
+  agency: string | null;
   duration: number | null;
   external_id: string;
   created_at: string;
+  status: IncidentLifecycleStatus | null;
+  status_updated_at: string | null;
+  alarm_level: number | null;
+  // Bumped on every insert and update (022_incident_changes.sql)
+  change_seq: number;
+  // Embedded on fetch; absent on realtime payloads
+  incident_transmissions?: SupabaseTransmission[];
+  incident_escalations?: SupabaseEscalation[];
+}
+
+export interface SupabaseEscalation {
+  from_level: number | null;
+  to_level: number;
+  escalated_at: string;
+}
+
+export interface SupabaseTransmission {
+  id: string;
+  external_id: string;
+  timestamp: string;
+  audio_url: string | null;
+  raw_transcript: string | null;
+  duration: number | null;
+  call_type: string | null;
+  units: string[] | null;
+}
+
+// Tombstone for a deleted incident (022_incident_changes.sql)
+export interface SupabaseIncidentDeletion {
+  incident_id: string;
+  external_id: string | null;
+  change_seq: number;
+  deleted_at: string;
+}
+
+// A row of the unit_status view (019_unit_status.sql)
+export interface SupabaseUnitStatus {
+  unit_id: string;
+  type: string;
+  home_station: string | null;
+  esd: number | null;
+  last_seen_at: string;
+  incident_external_id: string | null;
+  incident_call_type: string | null;
+  incident_address: string | null;
+  incident_status: IncidentLifecycleStatus | null;
+  committed_since: string | null;
+}
+
+// GET /api/incidents (src/app/api/incidents/route.ts)
+export interface SupabaseIncidentPage {
+  incidents: SupabaseIncident[];
+  // Pass back as ?cursor= for the next page; null on the last page
+  nextCursor: string | null;
 }
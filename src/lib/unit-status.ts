@@ -0,0 +1,80 @@
+import { UnitStatus } from '@/types/unit';
+import { APPARATUS_ROSTER, canonicalUnitName, resolveUnit } from '@/lib/apparatus-roster';
+
+// How much of a station's apparatus is out: none, some, or all of it
+export type StationAvailability = 'available' | 'partial' | 'committed' | 'unknown';
+
+export function isUnitCommitted(unit: UnitStatus): boolean {
+  return unit.assignment !== undefined;
+}
+
+/** Time since the unit was committed, e.g. "12m" or "2h 5m". */
+export function formatTimeCommitted(since: string, now: Date = new Date()): string {
+  const minutes = Math.max(0, Math.floor((now.getTime() - new Date(since).getTime()) / (1000 * 60)));
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/** Registered units plus roster apparatus the worker has not heard yet, which are available. */
+export function withRosterApparatus(units: UnitStatus[]): UnitStatus[] {
+  const heard = new Set(units.map((unit) => canonicalUnitName(unit.unitId)));
+
+  const unheard = APPARATUS_ROSTER
+    .filter((apparatus) => !heard.has(apparatus.unit))
+    .map((apparatus): UnitStatus => ({
+      unitId: apparatus.unit,
+      type: apparatus.type,
+      homeStation: apparatus.stationId,
+    }));
+
+  return [...units, ...unheard];
+}
+
+// An apparatus at a station and, once the worker has heard it, what it is doing
+export interface StationApparatus {
+  unit: string;
+  status?: UnitStatus;
+}
+
+/**
+ * Apparatus at each station, by station id: the roster's, plus registered units homed at
+ * a station that the roster doesn't list.
+ */
+export function groupApparatusByStation(units: UnitStatus[]): Map<string, StationApparatus[]> {
+  const statusByUnit = new Map<string, UnitStatus>();
+  for (const unit of units) {
+    const canonical = canonicalUnitName(unit.unitId);
+    // Spelling variants of one unit: the committed one wins
+    if (!statusByUnit.get(canonical)?.assignment) {
+      statusByUnit.set(canonical, unit);
+    }
+  }
+
+  const byStation = new Map<string, StationApparatus[]>();
+  const add = (stationId: string, apparatus: StationApparatus) => {
+    if (!byStation.has(stationId)) {
+      byStation.set(stationId, []);
+    }
+    byStation.get(stationId)!.push(apparatus);
+  };
+
+  for (const apparatus of APPARATUS_ROSTER) {
+    add(apparatus.stationId, { unit: apparatus.unit, status: statusByUnit.get(apparatus.unit) });
+  }
+
+  for (const [canonical, unit] of statusByUnit) {
+    if (unit.homeStation && !resolveUnit(canonical).apparatus) {
+      add(unit.homeStation, { unit: canonical, status: unit });
+    }
+  }
+
+  return byStation;
+}
+
+export function getStationAvailability(apparatus: StationApparatus[] | undefined): StationAvailability {
+  if (!apparatus || apparatus.length === 0) return 'unknown';
+
+  const committed = apparatus.filter(({ status }) => status && isUnitCommitted(status)).length;
+  if (committed === 0) return 'available';
+  return committed === apparatus.length ? 'committed' : 'partial';
+}
@@ -26,16 +26,7 @@ export interface BroadcastifyLiveResponse {
   calls: BroadcastifyCall[];
 }
 
-export interface ParsedDispatchCall {
-  callType: string | null;
-  units: string[];
-  channels: string[];
-  address: string | null;
-  addressVariants: string[];
-  estimatedResolutionMinutes: number;
-  rawTranscript: string;
-  incidentType: 'fire' | 'medical' | null;
-}
+export type { ParsedDispatchCall } from '@shared/dispatch-parser';
 
 export interface DispatchIncident {
   id: string;
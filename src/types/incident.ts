@@ -1,3 +1,7 @@
+import type { IncidentLifecycleStatus } from '@shared/dispatch-parser';
+
+export type { IncidentLifecycleStatus };
+
 export interface FireIncident {
   traffic_report_id: string;
   published_date: string;
@@ -11,6 +15,8 @@ export interface FireIncident {
   address: string;
   traffic_report_status: 'ACTIVE' | 'ARCHIVED';
   traffic_report_status_date_time: string;
+  // Broadcastify incidents only; traffic_report_status is ARCHIVED once this is 'cleared'
+  lifecycleStatus?: IncidentLifecycleStatus;
   agency: string;
   incidentType: 'fire' | 'medical' | 'traffic' | null;
   units?: string[];
@@ -18,9 +24,37 @@ export interface FireIncident {
   audioUrl?: string;
   rawTranscript?: string;
   estimatedResolutionMinutes?: number;
+  geocodePrecision?: GeocodePrecision;
+  geocodeProvider?: string;
+  geocodeVariant?: string;
+  transmissions?: IncidentTransmission[];
+  // 1-5; a box alarm is a first alarm
+  alarmLevel?: number;
+  escalations?: IncidentEscalation[];
+}
+
+// A later transmission raising the incident's alarm level, oldest first
+export interface IncidentEscalation {
+  fromLevel?: number;
+  toLevel: number;
+  escalatedAt: string;
 }
 
-export type IncidentStatus = 'ACTIVE' | 'ARCHIVED' | 'ALL';
+// One radio call that is part of an incident, oldest first in FireIncident.transmissions
+export interface IncidentTransmission {
+  id: string;
+  timestamp: string;
+  audioUrl?: string;
+  transcript?: string;
+  callType?: string;
+  units?: string[];
+  duration?: number;
+}
+
+export type GeocodePrecision = 'rooftop' | 'interpolated' | 'intersection' | 'street' | 'none';
+
+// ACTIVE/ARCHIVED apply to every source; the lifecycle values to Broadcastify incidents
+export type IncidentStatus = 'ACTIVE' | 'ARCHIVED' | 'ALL' | Exclude<IncidentLifecycleStatus, 'cleared'>;
 export type DateRange = 'ALL' | 'DYNAMIC' | 'LAST_30_MINS' | 'LAST_HOUR' | 'LAST_4_HOURS' | 'LAST_12_HOURS' | 'TODAY' | 'WEEK' | 'CUSTOM';
 
 export interface FilterState {
@@ -33,6 +67,20 @@ export interface FilterState {
   endTime?: string;
   daysOfWeek: number[];
   agency: string;
+  // 'ALL' or one of FireIncident['incidentType']
+  incidentType: string;
   units: string[];
   showOnlyStaging: boolean;
+  // Limit to the map's viewport, which the list fills in as bounds
+  showOnlyInMapView: boolean;
+  // Only incidents located inside this box
+  bounds?: IncidentBounds;
+}
+
+// In degrees; west/east are longitudes, south/north latitudes
+export interface IncidentBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
 }
\ No newline at end of file
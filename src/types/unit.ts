@@ -0,0 +1,23 @@
+import type { IncidentLifecycleStatus } from './incident';
+
+// An apparatus from the units registry and what it is doing now
+export interface UnitStatus {
+  unitId: string;
+  type: string;
+  // FIRE_STATIONS id, e.g. 'FS0003'
+  homeStation?: string;
+  esd?: number;
+  // Absent for roster apparatus the worker has never heard
+  lastSeenAt?: string;
+  // Absent while the unit is available
+  assignment?: UnitAssignment;
+}
+
+export interface UnitAssignment {
+  // FireIncident.traffic_report_id of the incident the unit is committed to
+  incidentId: string;
+  callType?: string;
+  address?: string;
+  incidentStatus?: IncidentLifecycleStatus;
+  committedSince: string;
+}
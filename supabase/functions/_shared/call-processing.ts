@@ -0,0 +1,232 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { parseDispatchCallWithAI, LlmProvider, ParsedDispatchCall } from './dispatch-parser.ts';
+import { transcribeWithFailover, TranscriptionProvider } from './transcription.ts';
+import { geocodeAddress, GeocodeCache, GeocodeResult, GeocoderProvider } from './geocoding.ts';
+
+export type ProcessingStage = 'transcribe' | 'parse' | 'geocode';
+
+export const PROCESSING_STAGES: ProcessingStage[] = ['transcribe', 'parse', 'geocode'];
+
+// How a call left the worker: its incident was inserted, an incident for it already
+// existed, deduplication or merging folded it into another incident, deduplication
+// discarded it as having nothing to show, or it was handed to the dead-letter queue.
+export type CallOutcome = 'inserted' | 'existing' | 'merged' | 'dropped' | 'dead_lettered';
+
+// One row per Broadcastify call. Each stage reads the previous stage's output from the
+// row and writes its own, so a stage can be re-run without repeating the earlier ones.
+// A null `geocode` with `geocoded_at` set means the geocode stage ran and found nothing.
+export interface CallProcessingRecord<TCall> {
+  external_id: string;
+  call: TCall;
+  call_timestamp: string;
+  transcript: string | null;
+  transcription_provider: string | null;
+  transcribe_ms: number | null;
+  transcribed_at: string | null;
+  parsed: ParsedDispatchCall | null;
+  parse_ms: number | null;
+  parsed_at: string | null;
+  geocode: GeocodeResult | null;
+  geocode_ms: number | null;
+  geocoded_at: string | null;
+  completed_at: string | null;
+  outcome: CallOutcome | null;
+}
+
+export interface PipelineContext {
+  supabase: SupabaseClient;
+  transcriptionProviders: TranscriptionProvider[];
+  llmProvider: LlmProvider | null;
+  geocoders: GeocoderProvider[];
+  geocodeCache: GeocodeCache;
+}
+
+interface StageCall {
+  url: string;
+  ts: number;
+}
+
+export async function loadCallProcessing<TCall>(
+  supabase: SupabaseClient,
+  externalId: string
+): Promise<CallProcessingRecord<TCall> | null> {
+  const { data, error } = await supabase
+    .from('call_processing')
+    .select('*')
+    .eq('external_id', externalId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`  ✗ Could not load processing record for ${externalId}:`, error);
+    return null;
+  }
+
+  return data as CallProcessingRecord<TCall> | null;
+}
+
+export async function createCallProcessing<TCall extends StageCall>(
+  supabase: SupabaseClient,
+  externalId: string,
+  call: TCall
+): Promise<CallProcessingRecord<TCall>> {
+  const record: CallProcessingRecord<TCall> = {
+    external_id: externalId,
+    call,
+    call_timestamp: new Date(call.ts * 1000).toISOString(),
+    transcript: null,
+    transcription_provider: null,
+    transcribe_ms: null,
+    transcribed_at: null,
+    parsed: null,
+    parse_ms: null,
+    parsed_at: null,
+    geocode: null,
+    geocode_ms: null,
+    geocoded_at: null,
+    completed_at: null,
+    outcome: null,
+  };
+
+  // The row is the call's checkpoint: once it exists the worker cursor may move past the
+  // call, so failing to write it has to fail the call.
+  const { error } = await supabase
+    .from('call_processing')
+    .upsert(record, { onConflict: 'external_id', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Could not create processing record for ${externalId}: ${error.message}`);
+  }
+
+  return record;
+}
+
+export async function completeCallProcessing(
+  supabase: SupabaseClient,
+  externalIds: string[],
+  outcome: CallOutcome
+): Promise<void> {
+  if (externalIds.length === 0) return;
+
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('call_processing')
+    .update({ completed_at: now, outcome, updated_at: now })
+    .in('external_id', externalIds);
+
+  if (error) {
+    console.error(`  ✗ Could not mark ${externalIds.length} calls as ${outcome}:`, error);
+  }
+}
+
+/**
+ * Calls a previous run checkpointed but never finished, e.g. because it hit the function
+ * timeout between processing a batch and inserting its incidents. The worker cursor has
+ * already moved past them, so they are only reachable from here.
+ */
+export async function fetchOrphanedCalls<TCall>(
+  supabase: SupabaseClient,
+  limit: number
+): Promise<CallProcessingRecord<TCall>[]> {
+  const { data, error } = await supabase
+    .from('call_processing')
+    .select('*')
+    .is('completed_at', null)
+    .order('call_timestamp', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching orphaned calls:', error);
+    return [];
+  }
+
+  return (data || []) as CallProcessingRecord<TCall>[];
+}
+
+// Persisting is best-effort: a failed write only costs a repeat of the stage later, so
+// it shouldn't fail a call whose output we already have in memory.
+async function saveStage<TCall>(
+  supabase: SupabaseClient,
+  record: CallProcessingRecord<TCall>,
+  fields: Partial<CallProcessingRecord<TCall>>
+): Promise<CallProcessingRecord<TCall>> {
+  const { error } = await supabase
+    .from('call_processing')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('external_id', record.external_id);
+
+  if (error) {
+    console.error(`  ✗ Could not save processing record for ${record.external_id}:`, error);
+  }
+
+  return { ...record, ...fields };
+}
+
+export async function runTranscribeStage<TCall extends StageCall>(
+  ctx: PipelineContext,
+  record: CallProcessingRecord<TCall>
+): Promise<CallProcessingRecord<TCall>> {
+  const started = Date.now();
+  const { transcript, provider } = await transcribeWithFailover(ctx.transcriptionProviders, record.call.url);
+  console.log(`  ✓ Transcribed with ${provider}`);
+
+  return saveStage(ctx.supabase, record, {
+    transcript,
+    transcription_provider: provider,
+    transcribe_ms: Date.now() - started,
+    transcribed_at: new Date().toISOString(),
+  });
+}
+
+export async function runParseStage<TCall>(
+  ctx: PipelineContext,
+  record: CallProcessingRecord<TCall>
+): Promise<CallProcessingRecord<TCall>> {
+  if (record.transcript === null) {
+    throw new Error(`Call ${record.external_id} has not been transcribed`);
+  }
+
+  const started = Date.now();
+  const parsed = await parseDispatchCallWithAI(record.transcript, ctx.llmProvider);
+
+  return saveStage(ctx.supabase, record, {
+    parsed,
+    parse_ms: Date.now() - started,
+    parsed_at: new Date().toISOString(),
+  });
+}
+
+export async function runGeocodeStage<TCall>(
+  ctx: PipelineContext,
+  record: CallProcessingRecord<TCall>
+): Promise<CallProcessingRecord<TCall>> {
+  if (record.parsed === null) {
+    throw new Error(`Call ${record.external_id} has not been parsed`);
+  }
+
+  const started = Date.now();
+  let geocode: GeocodeResult | null = null;
+  if (record.parsed.address && record.parsed.addressVariants.length > 0) {
+    geocode = await geocodeAddress(record.parsed.addressVariants, ctx.geocoders, ctx.geocodeCache);
+  }
+
+  return saveStage(ctx.supabase, record, {
+    geocode,
+    geocode_ms: Date.now() - started,
+    geocoded_at: new Date().toISOString(),
+  });
+}
+
+export function runStage<TCall extends StageCall>(
+  stage: ProcessingStage,
+  ctx: PipelineContext,
+  record: CallProcessingRecord<TCall>
+): Promise<CallProcessingRecord<TCall>> {
+  switch (stage) {
+    case 'transcribe':
+      return runTranscribeStage(ctx, record);
+    case 'parse':
+      return runParseStage(ctx, record);
+    case 'geocode':
+      return runGeocodeStage(ctx, record);
+  }
+}
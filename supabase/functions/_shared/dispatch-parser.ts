@@ -1,3 +1,11 @@
+// Single source for the Supabase edge functions (relative import) and the Next.js app
+// (through the `@shared/*` path alias in tsconfig.json). Keep this module free of runtime
+// globals such as `process` or `Deno`; configuration is passed in by the caller.
+// Its own imports must be shared modules with the same constraint, imported with their
+// `.ts` extension as Deno requires (tsconfig.json sets allowImportingTsExtensions).
+
+import { UNIT_PATTERNS } from './unit-names.ts';
+
 export interface ParsedDispatchCall {
   callType: string | null;
   units: string[];
@@ -7,21 +15,15 @@ export interface ParsedDispatchCall {
   estimatedResolutionMinutes: number;
   rawTranscript: string;
   incidentType: 'fire' | 'medical' | null;
+  parserBackend: string;
 }
 
-const UNIT_PATTERNS = [
-  /\b(?:engine|eng|e)\s*(\d+)\b/gi,
-  /\b(?:ladder|lad|l)\s*(\d+)\b/gi,
-  /\b(?:truck|trk)\s*(\d+)\b/gi,
-  /\b(?:medic|med|m)\s*(\d+)\b/gi,
-  /\b(?:ambulance|amb|a)\s*(\d+)\b/gi,
-  /\b(?:battalion|bat|bc|b)\s*(\d+)\b/gi,
-  /\b(?:squad|sq)\s*(\d+)\b/gi,
-  /\b(?:rescue|res|r)\s*(\d+)\b/gi,
-  /\b(?:tanker|tan)\s*(\d+)\b/gi,
-  /\b(?:brush|br)\s*(\d+)\b/gi,
-  /\bSR[-\s]*(\d+)\b/gi,
-];
+export type EnvGetter = (name: string) => string | undefined;
+
+// Stored on every incident as parser_version. Bump it whenever preprocessTranscript, the
+// rule-based patterns or the LLM prompt change in a way that can change parser output,
+// so reprocess-incidents can find rows produced by an older parser.
+export const PARSER_VERSION = 2;
 
 const CHANNEL_PATTERN = /(?:F-TAC|FTAC|TAC|Fire\s*TAC)[-\s]*(\d+)/gi;
 
@@ -31,14 +33,32 @@ const ADDRESS_PATTERNS = [
   /(?:at|@)\s+([A-Za-z\s]+(?:street|st|avenue|ave|road|rd|boulevard|blvd|drive|dr|lane|ln|way|court|ct|place|pl|circle|cir)\s+and\s+[A-Za-z\s]+(?:street|st|avenue|ave|road|rd|boulevard|blvd|drive|dr|lane|ln|way|court|ct|place|pl|circle|cir))/i,
 ];
 
+// Highest first, so "upgrade from first to second alarm" reads as a second alarm.
+const ALARM_LEVEL_PATTERNS: [number, RegExp][] = [
+  [5, /\b(?:fifth|5th)\s+alarm\b/i],
+  [4, /\b(?:fourth|4th)\s+alarm\b/i],
+  [3, /\b(?:third|3rd)\s+alarm\b/i],
+  [2, /\b(?:second|2nd)\s+alarm\b/i],
+  [1, /\b(?:first|1st|box)\s+alarm\b/i],
+];
+
+const ALARM_RESOLUTION_MINUTES: Record<number, number> = { 1: 90, 2: 180, 3: 240, 4: 360, 5: 480 };
+
+// Alarm level (1-5) named in a transmission; a box alarm is a first alarm.
+export function detectAlarmLevel(transcript: string): number | null {
+  for (const [level, pattern] of ALARM_LEVEL_PATTERNS) {
+    if (pattern.test(transcript)) return level;
+  }
+  return null;
+}
+
 export function quickEstimateResolution(transcript: string): number {
   const lower = transcript.toLowerCase();
 
-  if (/\b(fifth|5th)\s+alarm\b/i.test(lower)) return 480;
-  if (/\b(fourth|4th)\s+alarm\b/i.test(lower)) return 360;
-  if (/\b(third|3rd)\s+alarm\b/i.test(lower)) return 240;
-  if (/\b(second|2nd)\s+alarm\b/i.test(lower)) return 180;
-  if (/\b(first|1st)\s+alarm\b/i.test(lower) || /\bbox\s+alarm\b/i.test(lower)) return 90;
+  const alarmLevel = detectAlarmLevel(lower);
+  if (alarmLevel) return ALARM_RESOLUTION_MINUTES[alarmLevel];
+
+  if (/\btask\s+force\b/i.test(lower)) return 90;
 
   if (/\b(structure\s+fire|building\s+fire|house\s+fire)\b/i.test(lower)) return 45;
   if (/\b(vehicle\s+fire|car\s+fire)\b/i.test(lower)) return 30;
@@ -63,24 +83,36 @@ export function quickEstimateResolution(transcript: string): number {
   return 60;
 }
 
-function preprocessTranscript(transcript: string): string {
+export function preprocessTranscript(transcript: string): string {
   let processed = transcript;
 
   processed = processed.replace(/\bASD\b/gi, 'AFD');
   processed = processed.replace(/\bAFV\b/gi, 'AFD');
-  processed = processed.replace(/\bARV\b/gi, 'ARFF');
+  processed = processed.replace(/\bARV\s*(\d+)\b/gi, 'ARFF $1');
   processed = processed.replace(/\bfree\b/gi, '3');
   processed = processed.replace(/\bN\s*(\d+)\b/gi, 'Engine $1');
   processed = processed.replace(/\bQuinn\s+(\d+)\b/gi, 'Quint $1');
   processed = processed.replace(/\bWind\s+(\d+)\b/gi, 'Quint $1');
+  processed = processed.replace(/\bTwin\s+(\d+)\b/gi, 'Quint $1');
   processed = processed.replace(/\bTWINT\s+(\d+)\b/gi, 'Quint $1');
   processed = processed.replace(/\bTwint\s+(\d+)\b/gi, 'Quint $1');
   processed = processed.replace(/\b(Quint)(\d+)\b/gi, '$1 $2');
-  processed = processed.replace(/\bQuad\s+(\d+)\b/gi, 'Squad $1');
+  processed = processed.replace(/\b(Engine)(\d+)\b/gi, '$1 $2');
+  processed = processed.replace(/\b(Truck)(\d+)\b/gi, '$1 $2');
+  processed = processed.replace(/\b(Ladder)(\d+)\b/gi, '$1 $2');
+  processed = processed.replace(/\b(Medic)(\d+)\b/gi, '$1 $2');
+  processed = processed.replace(/\b(Battalion)(\d+)\b/gi, '$1 $2');
+  processed = processed.replace(/\b(Squad)(\d+)\b/gi, '$1 $2');
+  processed = processed.replace(/\b(Rescue)(\d+)\b/gi, '$1 $2');
+  processed = processed.replace(/\b(Brush)(\d+)\b/gi, '$1 $2');
+  processed = processed.replace(/\b(ARFF)(\d+)\b/gi, '$1 $2');
+  processed = processed.replace(/\b(Ambulance)(\d+)\b/gi, '$1 $2');
   processed = processed.replace(/\bItalian\s+(\d+)\b/gi, 'Battalion $1');
   processed = processed.replace(/\bWAD\s+(\d+)\b/gi, 'Squad $1');
+  processed = processed.replace(/\bQuad\s+(\d+)\b/gi, 'Squad $1');
   processed = processed.replace(/\bAPS\s+(\d+)/gi, 'at $1');
-  processed = processed.replace(/\bF-Pack[-\s]+(\d+)\b/gi, 'F-TAC-$1');
+  processed = processed.replace(/\bF[-\s]?Pack[-\s]*(\d+)\b/gi, 'F-TAC-$1');
+  processed = processed.replace(/\bFPack[-\s]*(\d+)\b/gi, 'F-TAC-$1');
   processed = processed.replace(/\bS[-\s]?Pack[-\s]+(\d+)\b/gi, 'F-TAC-$1');
   processed = processed.replace(/\bFox\s+Alarm\b/gi, 'Box Alarm');
   processed = processed.replace(/\bBoss\s+Alarm\b/gi, 'Box Alarm');
@@ -96,6 +128,7 @@ function preprocessTranscript(transcript: string): string {
   processed = processed.replace(/\bof\s+this\s+(EMS|CMS)\b/gi, 'Assist EMS');
   processed = processed.replace(/\bRogue\b(?!\s+\d)/gi, 'Stroke');
   processed = processed.replace(/\bPaul\b/gi, 'Fall');
+  processed = processed.replace(/\bVehicle\s+Buyer\b/gi, 'Vehicle Fire');
   processed = processed.replace(/\bLife\s+Box\s+Alarm\b/gi, 'Lightbox Alarm');
 
   processed = processed.replace(/\bActs\s+(\d+)/gi, 'at $1');
@@ -140,69 +173,180 @@ function preprocessTranscript(transcript: string): string {
   processed = processed.replace(/\b(?:Bach|batch)\s*,?\s*ST[-\s]*(\d+)/gi, 'Box ST-$1');
   processed = processed.replace(/\b(?:Chesapeake|Chesapeakene|Chespane|Champaign)\b/gi, 'Chest Pain');
   processed = processed.replace(/\bESC\s+(\d+)/gi, 'ESD $1');
-  processed = processed.replace(/\b[BbRr]oke\b/g, 'stroke');
+  processed = processed.replace(/\b[BbRr]r?oke\b/g, 'stroke');
 
   return processed;
 }
 
-export async function parseDispatchCallWithAI(
-  transcript: string
-): Promise<ParsedDispatchCall> {
-  console.log('\n--- AI DISPATCH PARSER START ---');
-  console.log('Original transcript:', transcript);
-
-  const cleanedTranscript = preprocessTranscript(transcript);
-  if (cleanedTranscript !== transcript) {
-    console.log('After preprocessing:', cleanedTranscript);
-  }
-
-  try {
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openaiApiKey) {
-      throw new Error('OPENAI_API_KEY not configured');
-    }
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${openaiApiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a fire/EMS dispatch call parser for Austin/Travis County, Texas. Extract structured information from dispatch audio transcripts.
+const DISPATCH_PARSER_SYSTEM_PROMPT = `You are a fire/EMS dispatch call parser for Austin/Travis County, Texas. Extract structured information from dispatch audio transcripts.
 
 Extract:
 - callType: Extract ONLY the incident/call type itself - the core emergency type without any location details, box numbers, or extra context. Apply PROPER TITLE CASE CAPITALIZATION. DO NOT include: "in AFD box", "at [address]", "on [channel]", alarm box identifiers, geographic areas, or any location information. CRITICAL INSTRUCTION WORD HANDLING: Strip instruction words like "check", "verify", "confirm", "standby", "stage", "staging" ONLY if there is a meaningful specific emergency type remaining after removal. If removing instruction words would leave only a generic category word ("Fire", "Medical", "EMS", "Traffic"), you MUST keep the instruction word or reformulate to be specific. Examples: "Assault Check" → "Assault" (specific type remains), "Fire Standby" → "Fire Standby" (keep because "Fire" alone is too generic), "Medical Verify" → "Medical Verify" (keep because "Medical" alone is too generic), "Smoke Check" → "Smoke Investigation" (reformulate to be specific), "Fire Alarm Verify" → "Fire Alarm" (specific type remains after stripping). IMPORTANT: If you cannot determine a specific call type and would return only "Fire", "Medical", "EMS", or "Traffic" alone, return null instead. Prefer null over generic single-word call types. "Code 1", "Code One", "Code 2", "Code Two", etc. are priority levels and should NEVER be standalone call types - they must be combined with the actual incident type (e.g., "Sick Person Code 1", "Fall Code 2"). If an alarm level is mentioned (First Alarm, Second Alarm, etc.), use that as the call type. If the transcript contains only operational instructions without a clear emergency type, return null.
 - incidentType: Classify the incident as either "fire" or "medical". Fire incidents include: fires, alarms, smoke, vehicle fires, structure fires, brush fires, hazmat, gas leaks, explosions, rescues (not medical), technical rescues. Medical incidents include: medical emergencies, chest pain, respiratory issues, unconscious persons, injuries, falls, lift assists, cardiac arrest, strokes, seizures, overdoses, diabetic emergencies, any EMS/medical response.
-- units: Array of ALL responding units mentioned ANYWHERE in the transcript. CRITICAL: You must scan the ENTIRE transcript from start to end and extract EVERY unit mentioned. Units can appear at the beginning ("Engine 33, chest pain"), in the middle, or in a list at the end ("Response: Engine 3, Truck 3, Engine 14"). Example: "Second alarm, engine 33, fire standby... Response on FD-201, Engine 3, Truck 3, Engine 14" should extract ["Engine 33", "Engine 3", "Truck 3", "Engine 14"]. Common unit types: Engine, Truck, Ladder, Medic, Ambulance, Battalion, Squad, Rescue, Brush, Quint, FTO, Safety Officer, Command, Investigator, Wildfire Support, SR (Special Response). IMPORTANT: "SR-20" or "SR 20" is a UNIT (Special Response unit), not a call type. Example: "SR-20 fall at 123 Main St" means unit "SR20" responding to a "Fall" call. Note: "Quinn" in audio is actually "Quint" (a fire apparatus type). DO NOT extract "ESD" (Emergency Services District) numbers as units - "ESD 14" is a geographic area, not a unit. DO NOT extract "APS" followed by numbers as units - "APS 2803" is part of an address, not a unit. DO NOT extract "F-TAC", "FTAC", "F-Pack", "FPack", or "F Pack" followed by numbers as units - these are radio CHANNELS, not units (e.g., "F-TAC 203", "F-Pack 203", "FPack203" are all channels, NOT units). DO NOT extract alarm box identifiers as units - patterns like "Box ST-51", "Box 2101", "Box BL1", "box 1234", "ST 51", "ST-51", "BL1", etc. are location/box identifiers, NOT units. Box identifiers typically appear after "in AFD box", "in ESD", or standalone and should be completely ignored. Only extract actual apparatus/unit callouts. Unit numbers should NOT contain dashes - remove any dashes from unit numbers (e.g., "14-01" becomes "1401", "12-02" becomes "1202", "SR-20" becomes "SR20").
+- units: Array of ALL responding units mentioned ANYWHERE in the transcript. CRITICAL: You must scan the ENTIRE transcript from start to end and extract EVERY unit mentioned. Units can appear at the beginning ("Engine 33, chest pain"), in the middle, or in a list at the end ("Response: Engine 3, Truck 3, Engine 14"). Example: "Second alarm, engine 33, fire standby... Response on FD-201, Engine 3, Truck 3, Engine 14" should extract ["Engine 33", "Engine 3", "Truck 3", "Engine 14"]. Common unit types: Engine, Truck, Ladder, Medic, Ambulance, Battalion, Squad, Rescue, Brush, Quint, FTO, Safety Officer, Command, Investigator, Wildfire Support, SR (Special Response), ARFF (Aircraft Rescue and Firefighting - airport fire units). IMPORTANT UNIT CORRECTIONS: (1) "ARV" followed by numbers is a TRANSCRIPTION ERROR - it should be "ARFF" (e.g., "ARV 301" → "ARFF 301", "ARV2" → "ARFF 2"). (2) "SR-20" or "SR 20" is a UNIT (Special Response unit), not a call type. Example: "SR-20 fall at 123 Main St" means unit "SR20" responding to a "Fall" call. (3) "Quinn" in audio is actually "Quint" (a fire apparatus type). DO NOT extract "ESD" (Emergency Services District) numbers as units - "ESD 14" is a geographic area, not a unit. DO NOT extract "APS" followed by numbers as units - "APS 2803" is part of an address, not a unit. DO NOT extract "F-TAC", "FTAC", "F-Pack", "FPack", or "F Pack" followed by numbers as units - these are radio CHANNELS, not units (e.g., "F-TAC 203", "F-Pack 203", "FPack203" are all channels, NOT units). DO NOT extract alarm box identifiers as units - patterns like "Box ST-51", "Box 2101", "Box BL1", "box 1234", "ST 51", "ST-51", "BL1", etc. are location/box identifiers, NOT units. Box identifiers typically appear after "in AFD box", "in ESD", or standalone and should be completely ignored. Only extract actual apparatus/unit callouts. Unit numbers should NOT contain dashes - remove any dashes from unit numbers (e.g., "14-01" becomes "1401", "12-02" becomes "1202", "SR-20" becomes "SR20", but "ARFF 301" stays as "ARFF 301").
 - channels: Array of tactical/radio channels ONLY. Valid channels are: F-TAC (fire tactical), Firecom, Medcom. IMPORTANT: "F-TAC" or "FTAC" followed by numbers is a CHANNEL, not a unit (e.g., "F-TAC 203", "F-Pack 203" transcribed from audio is "F-TAC-203" channel). Include directional suffixes for Firecom channels (e.g., "Firecom North", "Firecom South", "Firecom East", "Firecom West") - NEVER truncate to just "Firecom". Format F-TAC channels as "F-TAC-###" (e.g., "F-TAC-201" NOT "FD-201" or "FD201"). DO NOT include "Box" numbers as channels - those are alarm box identifiers, not radio channels. Examples: ["F-TAC-203"], ["Firecom North"], ["Firecom South"], ["Medcom 2"]
-- address: Primary street address extracted from audio. IMPORTANT: Speech recognition often garbles addresses - you MUST attempt to correct obvious errors and reconstruct the intended address. Common errors: "Acts" → "at", misspelled street names (e.g., "Vanmieter" → "Van Meter", "Guadaloop" → "Guadalupe"), split words (e.g., "Plate" → "Place", "Burr Net" → "Burnet"), run-together numbers and streets. Examples: "Acts 18609 Vanmieter Plate" → "18609 Van Meter Place", "APS 2803 Parker Lane" → "2803 Parker Lane", "12212 to 12316 Anderson Mill Road" → "12212-12316 Anderson Mill Road". If you can identify a street number (e.g., "18609") followed by what appears to be a garbled street name (e.g., "Vanmieter Plate"), attempt to reconstruct it as a valid address. Format address ranges with dashes (e.g., "2200-2400 North Interstate 35" NOT "2200 to 2400").
+- address: Primary street address extracted from audio. IMPORTANT: Speech recognition often garbles addresses - you MUST attempt to correct obvious errors and reconstruct the intended address. Common errors: "Acts" → "at", misspelled street names (e.g., "Vanmieter" → "Van Meter", "Guadaloop" → "Guadalupe"), split words (e.g., "Plate" → "Place", "Burr Net" → "Burnet"), run-together numbers and streets. CRITICAL ADDRESS NUMBER RULES: (1) Standard Austin addresses are typically 3-5 digits (e.g., "123", "1234", "12345"). If you see a 6-7 digit number like "1300609" or "777923", this is LIKELY A TRANSCRIPTION ERROR with extra digits concatenated. Check if removing leading/middle zeros creates a valid address (e.g., "1300609" → "13609", "7700923" → "7923"). (2) For address ranges separated by dashes (e.g., "7700-7923"), KEEP THE FULL RANGE FORMAT "7700-7923", do NOT concatenate into a single number. (3) Airport fire units are "ARFF" (Aircraft Rescue and Firefighting), NOT "ARV" - the transcript may mishear this. Examples: "Acts 18609 Vanmieter Plate" → "18609 Van Meter Place", "APS 2803 Parker Lane" → "2803 Parker Lane", "12212 to 12316 Anderson Mill Road" → "12212-12316 Anderson Mill Road", "1300609 North Interstate" → "13609 North Interstate" (removed extra zeros), "7700-7923 North Capital" → "7700-7923 North Capital" (kept range format). If you can identify a street number (e.g., "18609") followed by what appears to be a garbled street name (e.g., "Vanmieter Plate"), attempt to reconstruct it as a valid address. Format address ranges with dashes (e.g., "2200-2400 North Interstate 35" NOT "2200 to 2400" or "22002400").
 - addressVariants: Array of 5-10 comprehensive address variations for geocoding, optimized for Austin/Travis County, TX. GENERATE VARIANTS COVERING ALL ABBREVIATION COMBINATIONS. Include: (1) Original address as heard, (2) Variants with ALL street type abbreviations: St/Street, Blvd/Boulevard, Rd/Road, Dr/Drive, Ln/Lane, Ave/Avenue, Ct/Court, Pl/Place, Pkwy/Parkway, Trl/Trail, Loop, Cir/Circle, Frontage/Frntg, Service/Svc, (3) Variants with ALL directional abbreviations: N/North, S/South, E/East, W/West, NE/Northeast, NW/Northwest, SE/Southeast, SW/Southwest, (4) Combinations of abbreviated and expanded forms (e.g., for "Woodward St & E Ben White Blvd Frontage Rd" generate: "Woodward Street & East Ben White Boulevard Frontage Road", "Woodward St & East Ben White Blvd Frontage Rd", "Woodward Street & E Ben White Boulevard Frontage Rd", etc.), (5) Austin/Travis County location suffixes ("Austin TX", "Travis County TX"), (6) Corrected spellings of known Austin streets (e.g., "Guadalupe" often mistranscribed, "Lamar" variants, "MoPac"/"Loop 1", "I-35"/"Interstate 35" variants), (7) Variants without directional prefixes if applicable. For address ranges, include variants with just the first number (e.g., for "2200-2400 Main St", include "2200 Main St"). Examples: ["2328 Hartford Road", "2328 Hartford Rd", "2328 Hartford Road Austin TX", "2328 Hartford Rd Travis County TX"]. For highways: ["I-35 North", "Interstate 35 North", "I-35", "US Highway 35"]. For complex intersections: ["Woodward St & E Ben White Blvd Frontage Rd", "Woodward Street & East Ben White Boulevard Frontage Road", "Woodward St & East Ben White Blvd Service Rd", "Woodward Street & E Ben White Blvd Frontage Rd"]. Always ensure variants are appropriate for Austin/Travis County geography.
 - estimatedResolutionMinutes: Estimated time in minutes until this incident is likely resolved. Guidelines: Medical calls (chest pain, respiratory, unconscious) ~30min, Traffic accidents ~45min, Fire alarm activation ~15min, Lift assist ~20min, First Alarm ~60min, Second Alarm ~120min, Third Alarm+ ~180min, Vehicle fire ~30min, Structure fire without alarm level ~45min, Hazmat ~90min, Rescue ~60min. Consider severity and number of responding units. You do not have to follow these, these are just examples.
 
-Return valid JSON only. If something isn't mentioned, use null or empty array. estimatedResolutionMinutes, incidentType, and addressVariants must always be provided (addressVariants can be empty array if no address).`,
-          },
-          {
-            role: 'user',
-            content: cleanedTranscript,
-          },
-        ],
-        response_format: { type: 'json_object' },
-        temperature: 0.1,
-        max_tokens: 500,
-      }),
+Return valid JSON only. If something isn't mentioned, use null or empty array. estimatedResolutionMinutes, incidentType, and addressVariants must always be provided (addressVariants can be empty array if no address).`;
+
+export interface LlmProvider {
+  name: string;
+  complete(systemPrompt: string, userContent: string): Promise<string>;
+}
+
+interface ChatCompletionsProviderOptions {
+  kind: 'openai' | 'openai-compatible';
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+// OpenAI and local servers (llama.cpp, Ollama) all speak the same /chat/completions API,
+// so one implementation covers every LLM backend; only the base URL and key differ.
+export function createChatCompletionsProvider({
+  kind,
+  baseUrl,
+  model,
+  apiKey,
+}: ChatCompletionsProviderOptions): LlmProvider {
+  const name = `${kind}:${model}`;
+
+  return {
+    name,
+    async complete(systemPrompt, userContent) {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) {
+        headers['Authorization'] = `Bearer ${apiKey}`;
+      }
+
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userContent },
+          ],
+          response_format: { type: 'json_object' },
+          temperature: 0.1,
+          max_tokens: 500,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`${name} API error: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content || '{}';
+    },
+  };
+}
+
+/**
+ * Resolves the LLM backend from LLM_PROVIDER ("openai", "openai-compatible" or "rules").
+ * When unset, OpenAI is used if OPENAI_API_KEY is present, then any LLM_BASE_URL server,
+ * and otherwise every call goes through the rule-based parser. `getEnv` is
+ * `(name) => Deno.env.get(name)` in edge functions and `(name) => process.env[name]` in Next.
+ */
+export function resolveLlmProvider(getEnv: EnvGetter): LlmProvider | null {
+  const openaiApiKey = getEnv('OPENAI_API_KEY');
+  const baseUrl = getEnv('LLM_BASE_URL');
+  const configured = getEnv('LLM_PROVIDER')?.trim().toLowerCase();
+  const kind = configured || (openaiApiKey ? 'openai' : baseUrl ? 'openai-compatible' : 'rules');
+
+  if (kind === 'openai') {
+    const apiKey = getEnv('LLM_API_KEY') || openaiApiKey;
+    if (!apiKey) {
+      console.log('⚠️ LLM_PROVIDER=openai but no API key configured, using rule-based parser');
+      return null;
+    }
+    return createChatCompletionsProvider({
+      kind,
+      baseUrl: 'https://api.openai.com/v1',
+      model: getEnv('LLM_MODEL') || 'gpt-4o-mini',
+      apiKey,
     });
+  }
 
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.statusText}`);
+  if (kind === 'openai-compatible') {
+    if (!baseUrl) {
+      console.log('⚠️ LLM_PROVIDER=openai-compatible but LLM_BASE_URL not configured, using rule-based parser');
+      return null;
     }
+    return createChatCompletionsProvider({
+      kind,
+      baseUrl,
+      model: getEnv('LLM_MODEL') || 'llama3.1',
+      apiKey: getEnv('LLM_API_KEY'),
+    });
+  }
 
-    const data = await response.json();
-    const result = JSON.parse(data.choices[0].message.content || '{}');
+  if (kind !== 'rules') {
+    console.log(`⚠️ Unknown LLM_PROVIDER "${kind}", using rule-based parser`);
+  }
+
+  return null;
+}
+
+export type IncidentLifecycleStatus = 'dispatched' | 'working' | 'upgraded' | 'under_control' | 'cleared';
+
+export interface StatusCue {
+  status: IncidentLifecycleStatus;
+  cue: string;
+}
+
+// Most advanced first: a transmission that says both "working fire" and "under control"
+// reports the later state.
+const STATUS_CUE_PATTERNS: { status: IncidentLifecycleStatus; pattern: RegExp }[] = [
+  { status: 'cleared', pattern: /\b(returning(?:\s+to\s+(?:quarters|service))?|back\s+in\s+(?:service|quarters)|clear(?:ing)?\s+(?:the\s+)?scene|all\s+units\s+(?:are\s+)?clear)\b/i },
+  { status: 'under_control', pattern: /\b(under\s+control|fire\s+(?:is\s+)?out|knock(?:ed)?\s*down|loss\s+stopped)\b/i },
+  { status: 'upgraded', pattern: /\b((?:second|third|fourth|fifth|2nd|3rd|4th|5th)\s+alarm|upgrad(?:e|ed|ing))\b/i },
+  { status: 'working', pattern: /\b(working\s+(?:structure\s+|house\s+|apartment\s+|commercial\s+)?fire|(?:fire|flames)\s+showing|smoke\s+and\s+fire|fully\s+involved)\b/i },
+];
+
+// Lifecycle cue in a transmission, independent of the LLM backend so every parser
+// version reports the same status for the same transcript.
+export function detectStatusCue(transcript: string): StatusCue | null {
+  for (const { status, pattern } of STATUS_CUE_PATTERNS) {
+    const match = transcript.match(pattern);
+    if (match) {
+      return { status, cue: match[1].toLowerCase() };
+    }
+  }
+  return null;
+}
+
+// Local models sometimes wrap their JSON in a markdown code fence despite response_format.
+function parseJsonContent(content: string) {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  return JSON.parse(fenced ? fenced[1] : content);
+}
+
+export async function parseDispatchCallWithAI(
+  transcript: string,
+  provider: LlmProvider | null
+): Promise<ParsedDispatchCall> {
+  if (!provider) {
+    console.log('No LLM backend configured, using rule-based parser');
+    return parseDispatchCall(transcript);
+  }
+
+  console.log('\n--- AI DISPATCH PARSER START ---');
+  console.log('LLM backend:', provider.name);
+  console.log('Original transcript:', transcript);
+
+  const cleanedTranscript = preprocessTranscript(transcript);
+  if (cleanedTranscript !== transcript) {
+    console.log('After preprocessing:', cleanedTranscript);
+  }
+
+  try {
+    const content = await provider.complete(DISPATCH_PARSER_SYSTEM_PROMPT, cleanedTranscript);
+    const result = parseJsonContent(content);
 
     const cleanedUnits = (result.units || [])
       .map((unit: string) => {
@@ -216,16 +360,29 @@ Return valid JSON only. If something isn't mentioned, use null or empty array. e
         return cleaned;
       })
       .filter((unit: string) => {
-        return !/^F[-\s]?Pack\s+\d+$/i.test(unit) && !/^FPack\s*\d+$/i.test(unit);
+        return !/^F[-\s]?Pack[-\s]*\d+$/i.test(unit) && !/^FPack[-\s]*\d+$/i.test(unit);
       });
 
+    const cleanedChannels = (result.channels || []).map((channel: string) => {
+      if (/^F[-\s]?Pack[-\s]*(\d+)$/i.test(channel)) {
+        return channel.replace(/^F[-\s]?Pack[-\s]*(\d+)$/i, 'F-TAC-$1');
+      }
+      if (/^FPack[-\s]*(\d+)$/i.test(channel)) {
+        return channel.replace(/^FPack[-\s]*(\d+)$/i, 'F-TAC-$1');
+      }
+      if (/^FD[-\s]*(\d+)$/i.test(channel)) {
+        return channel.replace(/^FD[-\s]*(\d+)$/i, 'F-TAC-$1');
+      }
+      return channel;
+    });
+
     const incidentType = result.incidentType === 'medical' ? 'medical' : result.incidentType === 'fire' ? 'fire' : null;
 
     console.log('AI Parsed Result:', {
       callType: result.callType || null,
       incidentType: incidentType,
       units: cleanedUnits,
-      channels: result.channels || [],
+      channels: cleanedChannels,
       address: result.address || null,
       addressVariants: result.addressVariants || [],
       estimatedResolutionMinutes: result.estimatedResolutionMinutes || 60,
@@ -237,11 +394,12 @@ Return valid JSON only. If something isn't mentioned, use null or empty array. e
       callType: result.callType || null,
       incidentType: incidentType,
       units: cleanedUnits,
-      channels: result.channels || [],
+      channels: cleanedChannels,
       address: result.address || null,
       addressVariants: result.addressVariants || [],
       estimatedResolutionMinutes: result.estimatedResolutionMinutes || 60,
       rawTranscript: cleanedTranscript,
+      parserBackend: provider.name,
     };
   } catch (error) {
     console.error('AI parsing failed, falling back to regex parser:', error);
@@ -398,20 +556,10 @@ export function parseDispatchCall(transcript: string): ParsedDispatchCall {
   const unitSet = new Set<string>();
 
   console.log('\nExtracting units:');
-  for (const pattern of UNIT_PATTERNS) {
+  for (const { type, pattern } of UNIT_PATTERNS) {
     let match;
     while ((match = pattern.exec(cleanedTranscript)) !== null) {
-      const fullMatch = match[0];
-      const unitNumber = match[1];
-
-      let unitType = fullMatch.replace(/\d+/g, '').trim();
-      if (unitType.toLowerCase() === 'e') unitType = 'Engine';
-      else if (unitType.toLowerCase() === 'l') unitType = 'Ladder';
-      else if (unitType.toLowerCase() === 't' || unitType.toLowerCase() === 'trk') unitType = 'Truck';
-      else if (unitType.toLowerCase() === 'm' || unitType.toLowerCase() === 'med') unitType = 'Medic';
-      else unitType = unitType.charAt(0).toUpperCase() + unitType.slice(1).toLowerCase();
-
-      const unitName = `${unitType} ${unitNumber}`;
+      const unitName = `${type} ${parseInt(match[1], 10)}`;
       if (!unitSet.has(unitName)) {
         unitSet.add(unitName);
         units.push(unitName);
@@ -515,5 +663,6 @@ export function parseDispatchCall(transcript: string): ParsedDispatchCall {
     addressVariants,
     estimatedResolutionMinutes: 60,
     rawTranscript: cleanedTranscript,
+    parserBackend: 'rules',
   };
 }
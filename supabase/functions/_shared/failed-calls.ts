@@ -0,0 +1,98 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// First retry after 2 minutes, doubling up to 6 hours. After MAX_ATTEMPTS the row is
+// parked as "dead" and only an admin retry puts it back in the queue.
+const BASE_RETRY_DELAY_MS = 2 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+
+export type FailedCallStage = 'transcribe' | 'parse' | 'geocode' | 'insert';
+
+export interface FailedCall<TCall> {
+  id: string;
+  external_id: string;
+  call: TCall;
+  stage: FailedCallStage;
+  error: string;
+  attempts: number;
+  status: 'pending' | 'dead' | 'discarded';
+  next_attempt_at: string;
+}
+
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+export async function fetchDueFailedCalls<TCall>(
+  supabase: SupabaseClient,
+  limit: number
+): Promise<FailedCall<TCall>[]> {
+  const { data, error } = await supabase
+    .from('failed_calls')
+    .select('id, external_id, call, stage, error, attempts, status, next_attempt_at')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching failed calls:', error);
+    return [];
+  }
+
+  return (data || []) as FailedCall<TCall>[];
+}
+
+/**
+ * Records a failed attempt for a call. `previousAttempts` is the attempt count of the
+ * dead-letter row being retried, or 0 for a call that failed for the first time.
+ * Returns false if the row could not be written, i.e. the call is not safely queued.
+ */
+export async function recordFailedCall<TCall>(
+  supabase: SupabaseClient,
+  externalId: string,
+  call: TCall,
+  stage: FailedCallStage,
+  error: unknown,
+  previousAttempts = 0
+): Promise<boolean> {
+  const attempts = previousAttempts + 1;
+  const exhausted = attempts >= MAX_ATTEMPTS;
+  const message = error instanceof Error ? error.message : String(error);
+
+  const { error: upsertError } = await supabase
+    .from('failed_calls')
+    .upsert({
+      external_id: externalId,
+      call,
+      stage,
+      error: message,
+      attempts,
+      status: exhausted ? 'dead' : 'pending',
+      next_attempt_at: new Date(Date.now() + getRetryDelayMs(attempts)).toISOString(),
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'external_id' });
+
+  if (upsertError) {
+    console.error(`  ✗ Could not record failed call ${externalId}:`, upsertError);
+    return false;
+  }
+
+  console.log(
+    exhausted
+      ? `  ☠️ Call ${externalId} failed at ${stage} after ${attempts} attempts, moved to dead letters`
+      : `  ↻ Call ${externalId} failed at ${stage} (attempt ${attempts}), retrying in ${Math.round(getRetryDelayMs(attempts) / 60000)}min`
+  );
+  return true;
+}
+
+export async function resolveFailedCall(supabase: SupabaseClient, externalId: string): Promise<void> {
+  const { error } = await supabase
+    .from('failed_calls')
+    .delete()
+    .eq('external_id', externalId);
+
+  if (error) {
+    console.error(`  ✗ Could not clear failed call ${externalId}:`, error);
+  }
+}
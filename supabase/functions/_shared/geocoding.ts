@@ -0,0 +1,564 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Addresses don't move, but the negative entries are retried periodically in case the
+// upstream geocoders learned the address (new subdivisions show up regularly).
+const POSITIVE_TTL_MS = 180 * 24 * 60 * 60 * 1000;
+const NEGATIVE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const DEFAULT_PROVIDERS = 'nominatim,mapsco,gazetteer';
+
+export type Coordinates = [number, number];
+
+// How exactly a geocode pins the address, from best to worst. "none" is stored on
+// incidents that could not be geocoded at all.
+export type GeocodePrecision = 'rooftop' | 'interpolated' | 'intersection' | 'street' | 'none';
+
+export interface GeocodeResult {
+  coordinates: Coordinates;
+  precision: GeocodePrecision;
+  provider: string;
+  variant: string;
+}
+
+export type ProviderLookup =
+  | { status: 'found'; coordinates: Coordinates; precision: GeocodePrecision }
+  | { status: 'not_found' }
+  | { status: 'error' };
+
+export interface GeocoderProvider {
+  name: string;
+  geocode(query: string): Promise<ProviderLookup>;
+}
+
+interface GazetteerRow {
+  longitude: number;
+  latitude: number;
+  match_type: string;
+}
+
+const GAZETTEER_PRECISION: Record<string, GeocodePrecision> = {
+  address_point: 'rooftop',
+  interpolated: 'interpolated',
+  intersection: 'intersection',
+};
+
+interface CacheEntry {
+  found: boolean;
+  coordinates: Coordinates | null;
+  precision: GeocodePrecision | null;
+  provider: string | null;
+  updatedAt: number;
+}
+
+interface GeocodeCacheRow {
+  query_key: string;
+  found: boolean;
+  latitude: number | null;
+  longitude: number | null;
+  match_precision: GeocodePrecision | null;
+  provider: string | null;
+  updated_at: string;
+}
+
+export interface GeocodeCacheStats {
+  hits: number;
+  negativeHits: number;
+  misses: number;
+  hitRate: number;
+}
+
+export interface GeocodeCache {
+  lookup(variants: string[]): Promise<Map<string, CacheEntry>>;
+  store(variant: string, result: Omit<GeocodeResult, 'variant'> | null): Promise<void>;
+  recordHit(negative: boolean): void;
+  recordMiss(): void;
+  stats(): GeocodeCacheStats;
+}
+
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) =>
+      setTimeout(() => reject(new Error('Request timeout')), timeoutMs)
+    ),
+  ]);
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+class RateLimiter {
+  private lastRequest = 0;
+  private queue: Array<{ resolve: () => void; minIntervalMs: number }> = [];
+  private processing = false;
+
+  async acquire(minIntervalMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.queue.push({ resolve, minIntervalMs });
+      if (!this.processing) {
+        this.processQueue();
+      }
+    });
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    while (this.queue.length > 0) {
+      const item = this.queue.shift();
+      if (!item) break;
+
+      const now = Date.now();
+      const timeSinceLastRequest = now - this.lastRequest;
+      const waitTime = Math.max(0, item.minIntervalMs - timeSinceLastRequest);
+
+      if (waitTime > 0) {
+        await delay(waitTime);
+      }
+
+      this.lastRequest = Date.now();
+      item.resolve();
+    }
+
+    this.processing = false;
+  }
+}
+
+const rateLimiters = {
+  nominatim: new RateLimiter(),
+  mapsCoKey1: new RateLimiter(),
+  mapsCoKey2: new RateLimiter(),
+};
+
+const STREET_SUFFIXES = /\b(street|st|road|rd|drive|dr|boulevard|blvd|lane|ln|avenue|ave|court|ct|place|pl|parkway|pkwy|trail|trl|circle|cir|highway|hwy|loop|way|cove|cv)\b/i;
+
+/**
+ * Cache key for an address variant: case, punctuation and repeated whitespace don't
+ * change what a geocoder returns, so "123 Main St." and "123 main st" share an entry.
+ */
+export function normalizeGeocodeQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/[.,#]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Nominatim (and Maps.co, which proxies it) rank results by granularity; 30 is a single
+// building or house number. Anything coarser only places the call on the street.
+function classifyNominatimResult(result: {
+  place_rank?: number | string;
+  class?: string;
+  category?: string;
+  type?: string;
+}): GeocodePrecision {
+  const rank = Number(result.place_rank);
+  const category = result.category ?? result.class;
+  if (rank >= 30 || category === 'building' || result.type === 'house') {
+    return 'rooftop';
+  }
+  return 'street';
+}
+
+export function isWithinAustinArea(coordinates: Coordinates): boolean {
+  const [lon, lat] = coordinates;
+
+  const bounds = {
+    north: 30.6,
+    south: 30.0,
+    west: -98.2,
+    east: -97.4
+  };
+
+  const isInBounds = lat >= bounds.south && lat <= bounds.north &&
+                     lon >= bounds.west && lon <= bounds.east;
+
+  if (!isInBounds) {
+    console.log(`⚠️ Coordinates [${lon}, ${lat}] are outside Austin/Travis County area`);
+  }
+
+  return isInBounds;
+}
+
+async function geocodeWithNominatim(query: string): Promise<ProviderLookup> {
+  await rateLimiters.nominatim.acquire(1000);
+
+  try {
+    const viewbox = '-98.2,30.0,-97.4,30.6';
+    const response = await withTimeout(
+      fetch(
+        `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(query)}&format=jsonv2&limit=1&countrycodes=us&viewbox=${viewbox}&bounded=1`,
+        {
+          headers: {
+            'User-Agent': 'Austin-Fire-Map/1.0',
+          },
+        }
+      ),
+      5000
+    );
+
+    if (!response.ok) {
+      console.log(`Nominatim HTTP ${response.status} for "${query}"`);
+      return { status: 'error' };
+    }
+
+    const data = await response.json();
+    if (data && data.length > 0) {
+      const result = data[0];
+      console.log(`✓ Nominatim geocoding successful: [${result.lon}, ${result.lat}]`);
+      return {
+        status: 'found',
+        coordinates: [parseFloat(result.lon), parseFloat(result.lat)],
+        precision: classifyNominatimResult(result),
+      };
+    }
+    return { status: 'not_found' };
+  } catch (error) {
+    console.log(`Nominatim failed for "${query}":`, error instanceof Error ? error.message : 'Unknown error');
+    return { status: 'error' };
+  }
+}
+
+async function geocodeWithMapsCo(query: string, apiKey: string, keyName: string): Promise<ProviderLookup> {
+  const limiter = keyName === 'Key 1' ? rateLimiters.mapsCoKey1 : rateLimiters.mapsCoKey2;
+  await limiter.acquire(1000);
+
+  try {
+    const queryWithLocation = `${query}, Austin, Travis County, Texas`;
+    const response = await withTimeout(
+      fetch(
+        `https://geocode.maps.co/search?q=${encodeURIComponent(queryWithLocation)}&api_key=${apiKey}`
+      ),
+      5000
+    );
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        console.log(`Maps.co (${keyName}) rate limited (429) for "${query}"`);
+      } else {
+        console.log(`Maps.co (${keyName}) HTTP ${response.status} for "${query}"`);
+      }
+      return { status: 'error' };
+    }
+
+    const data = await response.json();
+    if (data && data.length > 0) {
+      const result = data[0];
+      console.log(`✓ Maps.co (${keyName}) geocoding successful: [${result.lon}, ${result.lat}]`);
+      return {
+        status: 'found',
+        coordinates: [parseFloat(result.lon), parseFloat(result.lat)],
+        precision: classifyNominatimResult(result),
+      };
+    }
+    return { status: 'not_found' };
+  } catch (error) {
+    console.log(`Maps.co (${keyName}) failed for "${query}":`, error instanceof Error ? error.message : 'Unknown error');
+    return { status: 'error' };
+  }
+}
+
+export function createGeocodeCache(supabase: SupabaseClient): GeocodeCache {
+  // Entries read or written during this invocation, so concurrent calls for the same
+  // address don't each go back to the database.
+  const memory = new Map<string, CacheEntry>();
+  let hits = 0;
+  let negativeHits = 0;
+  let misses = 0;
+
+  const isFresh = (entry: CacheEntry) =>
+    Date.now() - entry.updatedAt < (entry.found ? POSITIVE_TTL_MS : NEGATIVE_TTL_MS);
+
+  return {
+    async lookup(variants) {
+      const keys = [...new Set(variants.map(normalizeGeocodeQuery))];
+      const unknownKeys = keys.filter((key) => !memory.has(key));
+
+      if (unknownKeys.length > 0) {
+        const { data, error } = await supabase
+          .from('geocode_cache')
+          .select('query_key, found, latitude, longitude, match_precision, provider, updated_at')
+          .in('query_key', unknownKeys);
+
+        if (error) {
+          console.log('⚠️ Geocode cache read failed:', error.message);
+        } else {
+          for (const row of (data || []) as GeocodeCacheRow[]) {
+            memory.set(row.query_key, {
+              found: row.found,
+              coordinates: row.found && row.longitude !== null && row.latitude !== null
+                ? [row.longitude, row.latitude]
+                : null,
+              precision: row.match_precision,
+              provider: row.provider,
+              updatedAt: new Date(row.updated_at).getTime(),
+            });
+          }
+        }
+      }
+
+      const entries = new Map<string, CacheEntry>();
+      for (const key of keys) {
+        const entry = memory.get(key);
+        if (entry && isFresh(entry)) {
+          entries.set(key, entry);
+        }
+      }
+      return entries;
+    },
+
+    async store(variant, result) {
+      const key = normalizeGeocodeQuery(variant);
+      const now = new Date();
+
+      memory.set(key, {
+        found: result !== null,
+        coordinates: result?.coordinates ?? null,
+        precision: result?.precision ?? null,
+        provider: result?.provider ?? null,
+        updatedAt: now.getTime(),
+      });
+
+      const { error } = await supabase
+        .from('geocode_cache')
+        .upsert({
+          query_key: key,
+          query: variant,
+          found: result !== null,
+          longitude: result?.coordinates[0] ?? null,
+          latitude: result?.coordinates[1] ?? null,
+          match_precision: result?.precision ?? null,
+          provider: result?.provider ?? null,
+          updated_at: now.toISOString(),
+        }, { onConflict: 'query_key' });
+
+      if (error) {
+        console.log('⚠️ Geocode cache write failed:', error.message);
+      }
+    },
+
+    recordHit(negative) {
+      if (negative) {
+        negativeHits++;
+      } else {
+        hits++;
+      }
+    },
+
+    recordMiss() {
+      misses++;
+    },
+
+    stats() {
+      const lookups = hits + negativeHits + misses;
+      return {
+        hits,
+        negativeHits,
+        misses,
+        hitRate: lookups === 0 ? 0 : Math.round(((hits + negativeHits) / lookups) * 1000) / 1000,
+      };
+    },
+  };
+}
+
+export function createNominatimProvider(): GeocoderProvider {
+  return {
+    name: 'nominatim',
+    geocode: (query) => geocodeWithNominatim(query),
+  };
+}
+
+export function createMapsCoProvider(apiKey: string, keyName: string): GeocoderProvider {
+  return {
+    name: 'mapsco',
+    geocode: (query) => geocodeWithMapsCo(query, apiKey, keyName),
+  };
+}
+
+/**
+ * Splits a transcript address into the forms the gazetteer understands: a single house
+ * number, a number range (geocoded at its midpoint) or an intersection of two streets.
+ * Location suffixes such as ", Austin, TX" are dropped since the gazetteer is local.
+ */
+export function parseGazetteerQuery(query: string):
+  | { kind: 'address'; number: number; street: string }
+  | { kind: 'intersection'; streetA: string; streetB: string }
+  | null {
+  const base = query.split(',')[0].trim();
+
+  const intersection = base.match(/^(.+?)\s+(?:&|and|at|@)\s+(.+)$/i);
+  if (intersection && !/^\d/.test(intersection[1])) {
+    return { kind: 'intersection', streetA: intersection[1].trim(), streetB: intersection[2].trim() };
+  }
+
+  const range = base.match(/^(\d+)\s*(?:-|to)\s*(\d+)\s+(.+)$/i);
+  if (range) {
+    const low = parseInt(range[1]);
+    const high = parseInt(range[2]);
+    return { kind: 'address', number: Math.round((low + high) / 2), street: range[3].trim() };
+  }
+
+  const single = base.match(/^(\d+)\s+(.+)$/);
+  if (single && (STREET_SUFFIXES.test(single[2]) || /\d/.test(single[2]))) {
+    return { kind: 'address', number: parseInt(single[1]), street: single[2].trim() };
+  }
+
+  return null;
+}
+
+/**
+ * Geocodes against the gazetteer tables loaded into PostGIS (see 007_gazetteer.sql): exact
+ * address points first, then interpolation along street centerlines, and intersections by
+ * intersecting the two centerlines. Needs no outside service.
+ */
+export function createGazetteerProvider(supabase: SupabaseClient): GeocoderProvider {
+  return {
+    name: 'gazetteer',
+    async geocode(query) {
+      const parsed = parseGazetteerQuery(query);
+      if (!parsed) {
+        return { status: 'not_found' };
+      }
+
+      const { data, error } = parsed.kind === 'intersection'
+        ? await supabase.rpc('gazetteer_geocode_intersection', {
+            p_street_a: parsed.streetA,
+            p_street_b: parsed.streetB,
+          })
+        : await supabase.rpc('gazetteer_geocode_address', {
+            p_number: parsed.number,
+            p_street: parsed.street,
+          });
+
+      if (error) {
+        console.log(`Gazetteer failed for "${query}":`, error.message);
+        return { status: 'error' };
+      }
+
+      const row = ((data || []) as GazetteerRow[])[0];
+      if (!row) {
+        return { status: 'not_found' };
+      }
+
+      console.log(`✓ Gazetteer ${row.match_type} match: [${row.longitude}, ${row.latitude}]`);
+      return {
+        status: 'found',
+        coordinates: [row.longitude, row.latitude],
+        precision: GAZETTEER_PRECISION[row.match_type] ?? 'street',
+      };
+    },
+  };
+}
+
+function createProviders(name: string, supabase: SupabaseClient): GeocoderProvider[] {
+  switch (name) {
+    case 'nominatim':
+      return [createNominatimProvider()];
+    case 'mapsco': {
+      const providers: GeocoderProvider[] = [];
+      const mapsCoKey1 = Deno.env.get('GEOCODING_API_KEY');
+      const mapsCoKey2 = Deno.env.get('GEOCODING_API_KEY_2');
+      if (mapsCoKey1) providers.push(createMapsCoProvider(mapsCoKey1, 'Key 1'));
+      if (mapsCoKey2) providers.push(createMapsCoProvider(mapsCoKey2, 'Key 2'));
+      if (providers.length === 0) {
+        console.log('⚠️ Geocoder "mapsco" skipped: GEOCODING_API_KEY not configured');
+      }
+      return providers;
+    }
+    case 'gazetteer':
+      return [createGazetteerProvider(supabase)];
+    default:
+      console.log(`⚠️ Unknown geocoder "${name}", ignoring`);
+      return [];
+  }
+}
+
+/**
+ * Builds the geocoder chain from GEOCODER_PROVIDERS, a comma-separated list tried in order
+ * for each address variant (e.g. "gazetteer,nominatim" or just "gazetteer" to run without
+ * any outside service). Defaults to Nominatim, then Maps.co, then the local gazetteer.
+ */
+export function getGeocoderProviders(supabase: SupabaseClient): GeocoderProvider[] {
+  const names = (Deno.env.get('GEOCODER_PROVIDERS') || DEFAULT_PROVIDERS)
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers = names.flatMap((name) => createProviders(name, supabase));
+
+  if (providers.length === 0) {
+    throw new Error(`No usable geocoders configured (GEOCODER_PROVIDERS="${names.join(',')}")`);
+  }
+
+  return providers;
+}
+
+async function geocodeVariant(
+  query: string,
+  providers: GeocoderProvider[]
+): Promise<{ result: GeocodeResult | null; definitive: boolean }> {
+  // Only cache a miss when every provider actually answered; a timeout or 429 says
+  // nothing about whether the address exists.
+  let definitive = true;
+
+  for (const provider of providers) {
+    const lookup = await provider.geocode(query);
+    if (lookup.status === 'found' && isWithinAustinArea(lookup.coordinates)) {
+      return {
+        result: { coordinates: lookup.coordinates, precision: lookup.precision, provider: provider.name, variant: query },
+        definitive: true,
+      };
+    }
+    if (lookup.status === 'error') {
+      definitive = false;
+    }
+  }
+
+  return { result: null, definitive };
+}
+
+export async function geocodeAddress(
+  addressVariants: string[],
+  providers: GeocoderProvider[],
+  cache: GeocodeCache
+): Promise<GeocodeResult | null> {
+  console.log(`Trying ${addressVariants.length} address variants with ${providers.map((p) => p.name).join(' → ')}`);
+
+  const cached = await cache.lookup(addressVariants);
+
+  for (const query of addressVariants) {
+    const entry = cached.get(normalizeGeocodeQuery(query));
+
+    if (entry) {
+      cache.recordHit(!entry.found);
+      if (entry.found && entry.coordinates) {
+        console.log(`✓ Geocode cache hit for "${query}": [${entry.coordinates[0]}, ${entry.coordinates[1]}]`);
+        return {
+          coordinates: entry.coordinates,
+          precision: entry.precision ?? 'street',
+          provider: entry.provider || 'cache',
+          variant: query,
+        };
+      }
+      console.log(`Skipping "${query}" (cached as not found)`);
+      continue;
+    }
+
+    cache.recordMiss();
+    console.log(`Trying: "${query}"`);
+
+    const { result, definitive } = await geocodeVariant(query, providers);
+    if (result) {
+      await cache.store(query, { coordinates: result.coordinates, precision: result.precision, provider: result.provider });
+      return result;
+    }
+    if (definitive) {
+      await cache.store(query, null);
+    }
+  }
+
+  console.log(`❌ All geocoding attempts failed for all variants (or results outside Austin area)`);
+  return null;
+}
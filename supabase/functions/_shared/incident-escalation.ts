@@ -0,0 +1,60 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { detectAlarmLevel } from './dispatch-parser.ts';
+
+export interface AlarmEscalation {
+  from_level: number | null;
+  to_level: number;
+  external_id: string;
+  audio_url: string;
+}
+
+interface AlarmTransmission {
+  external_id: string;
+  timestamp: string;
+  audio_url: string;
+  raw_transcript: string;
+}
+
+const byTime = (a: AlarmTransmission, b: AlarmTransmission) =>
+  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+/** Alarm level named by the first transmission of a new incident (its dispatch). */
+export function initialAlarmLevel(transmissions: AlarmTransmission[]): number | null {
+  const [dispatch] = [...transmissions].sort(byTime);
+  return dispatch ? detectAlarmLevel(dispatch.raw_transcript) : null;
+}
+
+/**
+ * Raises the incident's alarm level for each transmission, oldest first, that names a
+ * higher level than it has (see escalate_incident_alarm). Returns the escalations made.
+ */
+export async function escalateIncidentAlarm(
+  supabase: SupabaseClient,
+  incidentId: string,
+  transmissions: AlarmTransmission[]
+): Promise<AlarmEscalation[]> {
+  const escalations: AlarmEscalation[] = [];
+
+  for (const transmission of [...transmissions].sort(byTime)) {
+    const level = detectAlarmLevel(transmission.raw_transcript);
+    if (!level) continue;
+
+    const { data, error } = await supabase.rpc('escalate_incident_alarm', {
+      p_incident_id: incidentId,
+      p_level: level,
+      p_external_id: transmission.external_id,
+    });
+
+    if (error) {
+      console.error(`Error escalating incident ${incidentId} to alarm ${level}:`, error);
+      continue;
+    }
+
+    const row = ((data || []) as { from_level: number | null; to_level: number }[])[0];
+    if (row) {
+      escalations.push({ ...row, external_id: transmission.external_id, audio_url: transmission.audio_url });
+    }
+  }
+
+  return escalations;
+}
@@ -0,0 +1,102 @@
+import { PARSER_VERSION, ParsedDispatchCall } from './dispatch-parser.ts';
+import type { GeocodePrecision, GeocodeResult } from './geocoding.ts';
+import { normalizeUnits } from './unit-names.ts';
+
+export type IncidentType = 'fire' | 'medical' | 'traffic';
+
+// The incident columns that come out of parsing and geocoding a transcript. Shared by
+// process-calls and reprocess-incidents so a reprocessed row matches what the worker
+// would write for the same transcript today.
+export interface DerivedIncidentFields {
+  call_type: string;
+  address: string;
+  location: string | null;
+  geocode_precision: GeocodePrecision;
+  geocode_provider: string | null;
+  geocode_variant: string | null;
+  units: string[];
+  channels: string[];
+  estimated_resolution_minutes: number | null;
+  incident_type: IncidentType;
+  parser_backend: string;
+  parser_version: number;
+}
+
+const GENERIC_CALL_TYPES = ['fire', 'medical', 'ems', 'traffic'];
+
+export function enrichCallType(callType: string | null, transcript: string): string {
+  let finalCallType = callType || '?';
+
+  // Validate that callType is not too generic
+  if (finalCallType !== '?' && GENERIC_CALL_TYPES.includes(finalCallType.toLowerCase().trim())) {
+    console.log(`  ⚠️ Call type "${finalCallType}" is too generic, attempting to infer from transcript`);
+
+    // Try to get more context from transcript
+    const transcriptLower = transcript.toLowerCase();
+    if (transcriptLower.includes('alarm') || transcriptLower.includes('smoke')) {
+      finalCallType = 'Fire Alarm';
+      console.log(`  ✓ Enriched to "${finalCallType}"`);
+    } else if (transcriptLower.includes('standby')) {
+      finalCallType = finalCallType + ' Standby';
+      console.log(`  ✓ Enriched to "${finalCallType}"`);
+    } else if (transcriptLower.includes('check') || transcriptLower.includes('verify')) {
+      finalCallType = finalCallType + ' Investigation';
+      console.log(`  ✓ Enriched to "${finalCallType}"`);
+    } else {
+      console.log(`  ℹ️ Unable to make "${finalCallType}" more specific, keeping as-is`);
+    }
+  }
+
+  return finalCallType;
+}
+
+// `defaultType` is the talkgroup's default (monitored_groups.default_incident_type), used
+// when neither the parser nor the call type decides.
+export function inferIncidentType(
+  parsedType: ParsedDispatchCall['incidentType'],
+  callType: string,
+  defaultType: IncidentType | null = null
+): IncidentType {
+  if (parsedType) {
+    return parsedType;
+  }
+
+  const callTypeLower = callType.toLowerCase();
+  if (callTypeLower.includes('fire') || callTypeLower.includes('alarm') ||
+      callTypeLower.includes('smoke') || callTypeLower.includes('hazmat')) {
+    return 'fire';
+  }
+  if (callTypeLower.includes('medical') || callTypeLower.includes('ems') ||
+      callTypeLower.includes('cardiac') || callTypeLower.includes('stroke') ||
+      callTypeLower.includes('chest') || callTypeLower.includes('respiratory') ||
+      callTypeLower.includes('unconscious') || callTypeLower.includes('overdose') ||
+      callTypeLower.includes('injury') || callTypeLower.includes('fall')) {
+    return 'medical';
+  }
+  return defaultType ?? 'traffic';
+}
+
+export function deriveIncidentFields(
+  parsed: ParsedDispatchCall,
+  transcript: string,
+  geocoded: GeocodeResult | null,
+  defaultIncidentType: IncidentType | null = null
+): DerivedIncidentFields {
+  const callType = enrichCallType(parsed.callType, transcript);
+  const coordinates = geocoded?.coordinates ?? null;
+
+  return {
+    call_type: callType,
+    address: parsed.address || '?',
+    location: coordinates ? `POINT(${coordinates[0]} ${coordinates[1]})` : null,
+    geocode_precision: geocoded?.precision ?? 'none',
+    geocode_provider: geocoded?.provider ?? null,
+    geocode_variant: geocoded?.variant ?? null,
+    units: normalizeUnits(parsed.units),
+    channels: parsed.channels,
+    estimated_resolution_minutes: parsed.estimatedResolutionMinutes,
+    incident_type: inferIncidentType(parsed.incidentType, callType, defaultIncidentType),
+    parser_backend: parsed.parserBackend,
+    parser_version: PARSER_VERSION,
+  };
+}
@@ -0,0 +1,113 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { GeocodePrecision } from './geocoding.ts';
+
+// The parts of a new incident used to find and update the incident it belongs to.
+export interface MergeCandidate {
+  external_id: string;
+  timestamp: string;
+  call_type: string;
+  address: string;
+  location: string | null;
+  geocode_precision: GeocodePrecision;
+  geocode_provider: string | null;
+  geocode_variant: string | null;
+  units: string[];
+  channels: string[];
+}
+
+export interface IncidentMatch {
+  id: string;
+  external_id: string;
+  match_reason: 'units' | 'distance' | 'address';
+  distance_meters: number | null;
+}
+
+interface StoredIncident {
+  call_type: string | null;
+  address: string | null;
+  location: string | null;
+  units: string[] | null;
+  channels: string[] | null;
+}
+
+export const hasCallType = (callType: string | null) => !!callType && callType !== '?' && callType !== '-';
+export const hasAddress = (address: string | null) => !!address && address !== '?';
+
+/**
+ * Finds a recent open incident the new call belongs to (see find_matching_incident).
+ * A call with a status cue ("under control", "returning") also matches an older open
+ * incident that shares a unit.
+ */
+export async function findMatchingIncident(
+  supabase: SupabaseClient,
+  incident: MergeCandidate,
+  hasStatusCue = false
+): Promise<IncidentMatch | null> {
+  const { data, error } = await supabase.rpc('find_matching_incident', {
+    p_timestamp: incident.timestamp,
+    p_units: incident.units,
+    p_address: incident.address,
+    p_location: incident.location,
+    p_status_cue: hasStatusCue,
+  });
+
+  if (error) {
+    throw new Error(`find_matching_incident failed: ${error.message}`);
+  }
+
+  return ((data || []) as IncidentMatch[])[0] ?? null;
+}
+
+/**
+ * Folds a new call into an existing incident with the same rules as the worker's in-run
+ * merge: units and channels are combined, and call type, address and coordinates are
+ * only filled in where the existing incident has none.
+ */
+export async function mergeIntoIncident(
+  supabase: SupabaseClient,
+  match: IncidentMatch,
+  incident: MergeCandidate
+): Promise<void> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('incidents')
+    .select('call_type, address, location, units, channels')
+    .eq('id', match.id)
+    .single();
+
+  if (fetchError || !existing) {
+    throw new Error(`Could not load incident ${match.external_id}: ${fetchError?.message ?? 'not found'}`);
+  }
+
+  const target = existing as StoredIncident;
+  const update: Record<string, unknown> = {
+    units: [...new Set([...(target.units || []), ...incident.units])],
+    channels: [...new Set([...(target.channels || []), ...incident.channels])],
+  };
+
+  if (!hasCallType(target.call_type) && hasCallType(incident.call_type)) {
+    console.log(`  → Merging callType "${incident.call_type}" into ${match.external_id}`);
+    update.call_type = incident.call_type;
+  }
+
+  if (!hasAddress(target.address) && hasAddress(incident.address)) {
+    console.log(`  → Merging address "${incident.address}" into ${match.external_id}`);
+    update.address = incident.address;
+  }
+
+  if (!target.location && incident.location) {
+    console.log(`  → Merging coordinates into ${match.external_id}`);
+    update.location = incident.location;
+    update.geocode_precision = incident.geocode_precision;
+    update.geocode_provider = incident.geocode_provider;
+    update.geocode_variant = incident.geocode_variant;
+  }
+
+  const { error: updateError } = await supabase
+    .from('incidents')
+    .update(update)
+    .eq('id', match.id);
+
+  if (updateError) {
+    throw new Error(`Could not update incident ${match.external_id}: ${updateError.message}`);
+  }
+}
@@ -0,0 +1,66 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { detectStatusCue, IncidentLifecycleStatus, StatusCue } from './dispatch-parser.ts';
+
+// Mirrors incident_status_rank() in 017_incident_status.sql.
+const STATUS_RANK: Record<IncidentLifecycleStatus, number> = {
+  dispatched: 0,
+  working: 1,
+  upgraded: 2,
+  under_control: 3,
+  cleared: 4,
+};
+
+export interface TransmissionCue extends StatusCue {
+  external_id: string;
+}
+
+/** The most advanced status cue across an incident's transmissions, if any. */
+export function detectIncidentStatus(
+  transmissions: { external_id: string; raw_transcript: string }[]
+): TransmissionCue | null {
+  let best: TransmissionCue | null = null;
+
+  for (const transmission of transmissions) {
+    const cue = detectStatusCue(transmission.raw_transcript);
+    if (cue && (!best || STATUS_RANK[cue.status] > STATUS_RANK[best.status])) {
+      best = { ...cue, external_id: transmission.external_id };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Moves an incident forward to the cue's status and records it in incident_status_history.
+ * Returns false when the incident is already at or past that status.
+ */
+export async function advanceIncidentStatus(
+  supabase: SupabaseClient,
+  incidentId: string,
+  cue: TransmissionCue
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('advance_incident_status', {
+    p_incident_id: incidentId,
+    p_status: cue.status,
+    p_reason: 'cue',
+    p_cue: cue.cue,
+    p_external_id: cue.external_id,
+  });
+
+  if (error) {
+    console.error(`Error advancing incident ${incidentId} to ${cue.status}:`, error);
+    return false;
+  }
+  return data === true;
+}
+
+/** Clears open incidents that are past their estimate and have gone quiet. */
+export async function clearStaleIncidents(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase.rpc('clear_stale_incidents');
+
+  if (error) {
+    console.error('Error clearing stale incidents:', error);
+    return 0;
+  }
+  return (data as number) || 0;
+}
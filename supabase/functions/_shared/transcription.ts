@@ -0,0 +1,200 @@
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(audioUrl: string): Promise<string>;
+}
+
+export interface TranscriptionResult {
+  transcript: string;
+  provider: string;
+}
+
+const DEFAULT_PROVIDERS = 'deepgram';
+
+async function fetchAudio(audioUrl: string): Promise<Blob> {
+  const response = await fetch(audioUrl);
+  if (!response.ok) {
+    throw new Error(`Audio download failed: ${response.status} ${response.statusText}`);
+  }
+  return await response.blob();
+}
+
+// Both the OpenAI transcription API and self-hosted whisper servers take a multipart
+// upload rather than a URL, so the audio has to be pulled down first.
+async function postAudioForm(
+  endpoint: string,
+  audioUrl: string,
+  fields: Record<string, string>,
+  headers: Record<string, string> = {}
+): Promise<string> {
+  const audio = await fetchAudio(audioUrl);
+
+  const form = new FormData();
+  form.append('file', audio, 'call.mp3');
+  for (const [key, value] of Object.entries(fields)) {
+    form.append(key, value);
+  }
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers,
+    body: form,
+  });
+
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  const transcript = typeof result?.text === 'string' ? result.text.trim() : '';
+
+  if (!transcript) {
+    throw new Error('No transcript returned');
+  }
+
+  return transcript;
+}
+
+export function createDeepgramProvider(apiKey: string, model = 'nova-2'): TranscriptionProvider {
+  return {
+    name: `deepgram:${model}`,
+    async transcribe(audioUrl) {
+      const response = await fetch(
+        `https://api.deepgram.com/v1/listen?model=${encodeURIComponent(model)}&smart_format=true&language=en-US`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Token ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ url: audioUrl }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Deepgram transcription failed: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      const transcript = result?.results?.channels?.[0]?.alternatives?.[0]?.transcript;
+
+      if (!transcript) {
+        throw new Error('No transcript returned from Deepgram');
+      }
+
+      return transcript;
+    },
+  };
+}
+
+export function createWhisperApiProvider(
+  baseUrl: string,
+  apiKey: string | undefined,
+  model = 'whisper-1'
+): TranscriptionProvider {
+  const endpoint = `${baseUrl.replace(/\/$/, '')}/audio/transcriptions`;
+
+  return {
+    name: `whisper-api:${model}`,
+    async transcribe(audioUrl) {
+      try {
+        return await postAudioForm(
+          endpoint,
+          audioUrl,
+          { model, language: 'en', response_format: 'json' },
+          apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}
+        );
+      } catch (error) {
+        throw new Error(`Whisper API transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+  };
+}
+
+export function createLocalWhisperProvider(serverUrl: string, path = '/inference'): TranscriptionProvider {
+  const endpoint = `${serverUrl.replace(/\/$/, '')}${path}`;
+
+  return {
+    name: `local-whisper:${new URL(endpoint).host}`,
+    async transcribe(audioUrl) {
+      try {
+        return await postAudioForm(endpoint, audioUrl, {
+          response_format: 'json',
+          temperature: '0',
+          language: 'en',
+        });
+      } catch (error) {
+        throw new Error(`Local whisper transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+  };
+}
+
+function createProvider(name: string): TranscriptionProvider | null {
+  switch (name) {
+    case 'deepgram': {
+      const apiKey = Deno.env.get('DEEPGRAM_API_KEY');
+      if (!apiKey) {
+        console.log('⚠️ Transcription provider "deepgram" skipped: DEEPGRAM_API_KEY not configured');
+        return null;
+      }
+      return createDeepgramProvider(apiKey, Deno.env.get('DEEPGRAM_MODEL') || undefined);
+    }
+    case 'whisper-api': {
+      const apiKey = Deno.env.get('WHISPER_API_KEY') || Deno.env.get('OPENAI_API_KEY');
+      const baseUrl = Deno.env.get('WHISPER_API_URL') || 'https://api.openai.com/v1';
+      return createWhisperApiProvider(baseUrl, apiKey, Deno.env.get('WHISPER_MODEL') || undefined);
+    }
+    case 'local-whisper': {
+      const serverUrl = Deno.env.get('LOCAL_WHISPER_URL');
+      if (!serverUrl) {
+        console.log('⚠️ Transcription provider "local-whisper" skipped: LOCAL_WHISPER_URL not configured');
+        return null;
+      }
+      return createLocalWhisperProvider(serverUrl, Deno.env.get('LOCAL_WHISPER_PATH') || undefined);
+    }
+    default:
+      console.log(`⚠️ Unknown transcription provider "${name}", ignoring`);
+      return null;
+  }
+}
+
+/**
+ * Builds the provider chain from TRANSCRIPTION_PROVIDERS, a comma-separated list tried
+ * in order (e.g. "deepgram,whisper-api" or "local-whisper"). Defaults to Deepgram only.
+ */
+export function getTranscriptionProviders(): TranscriptionProvider[] {
+  const names = (Deno.env.get('TRANSCRIPTION_PROVIDERS') || DEFAULT_PROVIDERS)
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers = names
+    .map(createProvider)
+    .filter((provider): provider is TranscriptionProvider => provider !== null);
+
+  if (providers.length === 0) {
+    throw new Error(`No usable transcription providers configured (TRANSCRIPTION_PROVIDERS="${names.join(',')}")`);
+  }
+
+  return providers;
+}
+
+export async function transcribeWithFailover(
+  providers: TranscriptionProvider[],
+  audioUrl: string
+): Promise<TranscriptionResult> {
+  const errors: string[] = [];
+
+  for (const provider of providers) {
+    try {
+      const transcript = await provider.transcribe(audioUrl);
+      return { transcript, provider: provider.name };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.log(`  ⚠️ ${provider.name} failed: ${message}`);
+      errors.push(`${provider.name}: ${message}`);
+    }
+  }
+
+  throw new Error(`All transcription providers failed (${errors.join('; ')})`);
+}
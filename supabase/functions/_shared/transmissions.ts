@@ -0,0 +1,38 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// One Broadcastify call that is part of an incident (see 016_incident_transmissions.sql).
+// call_type and units are what the call itself said, before merging.
+export interface TransmissionRow {
+  external_id: string;
+  group_id: string;
+  timestamp: string;
+  audio_url: string;
+  raw_transcript: string;
+  duration: number;
+  call_type: string;
+  units: string[];
+}
+
+/**
+ * Attaches calls to an incident's transmission timeline. A call already recorded (e.g. a
+ * retried call whose incident was stored by an earlier attempt) keeps its original row.
+ * Best-effort: the incident itself is already stored, so a failure is logged, not thrown.
+ */
+export async function recordTransmissions(
+  supabase: SupabaseClient,
+  incidentId: string,
+  transmissions: TransmissionRow[]
+): Promise<void> {
+  if (transmissions.length === 0) return;
+
+  const { error } = await supabase
+    .from('incident_transmissions')
+    .upsert(
+      transmissions.map((transmission) => ({ ...transmission, incident_id: incidentId })),
+      { onConflict: 'external_id', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error(`Error recording ${transmissions.length} transmissions for incident ${incidentId}:`, error);
+  }
+}
@@ -0,0 +1,43 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+interface UnitTransmission {
+  external_id: string;
+  timestamp: string;
+  units: string[];
+}
+
+/**
+ * Commits the units heard on each transmission, oldest first, to the incident (see
+ * assign_incident_units). A unit moves off whatever incident it was on before.
+ * Returns how many units were assigned.
+ */
+export async function assignIncidentUnits(
+  supabase: SupabaseClient,
+  incidentId: string,
+  transmissions: UnitTransmission[]
+): Promise<number> {
+  let assigned = 0;
+
+  const ordered = [...transmissions].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  for (const transmission of ordered) {
+    if (transmission.units.length === 0) continue;
+
+    const { data, error } = await supabase.rpc('assign_incident_units', {
+      p_incident_id: incidentId,
+      p_units: transmission.units,
+      p_assigned_at: transmission.timestamp,
+      p_external_id: transmission.external_id,
+    });
+
+    if (error) {
+      console.error(`Error assigning units ${transmission.units.join(', ')} to incident ${incidentId}:`, error);
+      continue;
+    }
+    assigned += (data as number) || 0;
+  }
+
+  return assigned;
+}
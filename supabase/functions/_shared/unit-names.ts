@@ -0,0 +1,68 @@
+// Canonical unit names. Dispatch and the parser spell one apparatus several ways ("E3",
+// "Eng 3", "Engine 3"; "SR-20", "SR20"); everything stored uses "<Type> <number>".
+// normalize_unit() in 020_unit_names.sql mirrors normalizeUnit() for existing rows.
+
+export interface UnitPattern {
+  type: string;
+  // Global, case-insensitive; group 1 is the unit number
+  pattern: RegExp;
+}
+
+// Also what the rule-based parser scans transcripts for.
+export const UNIT_PATTERNS: UnitPattern[] = [
+  { type: 'Engine', pattern: /\b(?:engine|eng|e)\s*(\d+)\b/gi },
+  { type: 'Ladder', pattern: /\b(?:ladder|lad|l)\s*(\d+)\b/gi },
+  { type: 'Truck', pattern: /\b(?:truck|trk)\s*(\d+)\b/gi },
+  { type: 'Medic', pattern: /\b(?:medic|med|m)\s*(\d+)\b/gi },
+  { type: 'Ambulance', pattern: /\b(?:ambulance|amb|a)\s*(\d+)\b/gi },
+  { type: 'Battalion', pattern: /\b(?:battalion|bat|bc|b)\s*(\d+)\b/gi },
+  { type: 'Squad', pattern: /\b(?:squad|sq)\s*(\d+)\b/gi },
+  { type: 'Rescue', pattern: /\b(?:rescue|res|r)\s*(\d+)\b/gi },
+  { type: 'Tanker', pattern: /\b(?:tanker|tan)\s*(\d+)\b/gi },
+  { type: 'Brush', pattern: /\b(?:brush|br)\s*(\d+)\b/gi },
+  { type: 'Quint', pattern: /\b(?:quint|quinn)\s*(\d+)\b/gi },
+  { type: 'ARFF', pattern: /\b(?:arff|arv)\s*(\d+)\b/gi },
+  { type: 'SR', pattern: /\bSR[-\s]*(\d+)\b/gi },
+];
+
+export interface CanonicalUnit {
+  id: string; // e.g. "Engine 3"
+  type: string;
+  number: string;
+}
+
+// UNIT_PATTERNS matched against a whole unit string rather than searched for in a transcript
+const WHOLE_UNIT_PATTERNS = UNIT_PATTERNS.map(({ type, pattern }) => ({
+  type,
+  pattern: new RegExp(`^${pattern.source}$`, 'i'),
+}));
+
+/**
+ * The canonical id, type and number of a unit string, or null when it isn't a numbered
+ * apparatus ("Safety Officer", "Command").
+ */
+export function normalizeUnit(unit: string): CanonicalUnit | null {
+  const cleaned = unit
+    .trim()
+    .replace(/(\d+)-(\d+)/g, '$1$2') // "14-01" is unit 1401
+    .replace(/^([A-Za-z]+)\s*-\s*(?=\d)/, '$1 '); // "E-3"
+
+  for (const { type, pattern } of WHOLE_UNIT_PATTERNS) {
+    const match = cleaned.match(pattern);
+    if (match) {
+      const number = String(parseInt(match[1], 10));
+      return { id: `${type} ${number}`, type, number };
+    }
+  }
+
+  return null;
+}
+
+/** Canonical ids for a list of units, without duplicates. Unrecognized units are kept as given. */
+export function normalizeUnits(units: string[]): string[] {
+  const normalized = units
+    .map((unit) => normalizeUnit(unit)?.id ?? unit.trim())
+    .filter((unit) => unit !== '');
+
+  return [...new Set(normalized)];
+}
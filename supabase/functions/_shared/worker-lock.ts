@@ -0,0 +1,72 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface WorkerLock {
+  holder: string;
+  // False once another run has taken the lock over; stop before touching shared state.
+  renew(): Promise<boolean>;
+  release(): Promise<void>;
+}
+
+interface AcquireRow {
+  acquired: boolean;
+  holder: string | null;
+  lease_expires_at: string | null;
+}
+
+/**
+ * Takes the process-calls run lease (see 012_worker_lock.sql). Returns null while another
+ * run holds an unexpired lease. A lease left behind by a run that crashed or hit the
+ * function timeout is taken over once it expires.
+ */
+export async function acquireWorkerLock(
+  supabase: SupabaseClient,
+  ttlSeconds: number
+): Promise<WorkerLock | null> {
+  const holder = crypto.randomUUID();
+
+  const { data, error } = await supabase.rpc('acquire_worker_lock', {
+    p_holder: holder,
+    p_ttl_seconds: ttlSeconds,
+  });
+
+  if (error) {
+    throw new Error(`Failed to acquire worker lock: ${error.message}`);
+  }
+
+  const row = ((data || []) as AcquireRow[])[0];
+
+  if (!row?.acquired) {
+    console.log(`🔒 Worker lock held by ${row?.holder} until ${row?.lease_expires_at}, skipping run`);
+    return null;
+  }
+
+  if (row.holder) {
+    console.log(`⚠️ Recovered stale worker lock from ${row.holder} (expired ${row.lease_expires_at})`);
+  }
+  console.log(`🔒 Worker lock acquired (${holder})`);
+
+  return {
+    holder,
+    async renew() {
+      const { data: renewed, error: renewError } = await supabase.rpc('renew_worker_lock', {
+        p_holder: holder,
+        p_ttl_seconds: ttlSeconds,
+      });
+
+      if (renewError) {
+        console.error('Error renewing worker lock:', renewError);
+        return false;
+      }
+      return renewed === true;
+    },
+    async release() {
+      const { error: releaseError } = await supabase.rpc('release_worker_lock', { p_holder: holder });
+
+      if (releaseError) {
+        console.error('Error releasing worker lock:', releaseError);
+      } else {
+        console.log('🔓 Worker lock released');
+      }
+    },
+  };
+}
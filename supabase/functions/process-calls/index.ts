@@ -1,9 +1,33 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { generateBroadcastifyJWT, authenticateUser } from '../_shared/broadcastify-jwt.ts';
-import { parseDispatchCallWithAI, quickEstimateResolution } from '../_shared/dispatch-parser.ts';
+import { quickEstimateResolution, resolveLlmProvider } from '../_shared/dispatch-parser.ts';
+import { getTranscriptionProviders } from '../_shared/transcription.ts';
+import { createGeocodeCache, getGeocoderProviders } from '../_shared/geocoding.ts';
+import { fetchDueFailedCalls, recordFailedCall, resolveFailedCall, FailedCallStage } from '../_shared/failed-calls.ts';
+import {
+  completeCallProcessing,
+  createCallProcessing,
+  fetchOrphanedCalls,
+  loadCallProcessing,
+  runGeocodeStage,
+  runParseStage,
+  runTranscribeStage,
+  PipelineContext,
+} from '../_shared/call-processing.ts';
+import { deriveIncidentFields, DerivedIncidentFields, IncidentType } from '../_shared/incident-fields.ts';
+import { acquireWorkerLock, WorkerLock } from '../_shared/worker-lock.ts';
+import { findMatchingIncident, mergeIntoIncident } from '../_shared/incident-merge.ts';
+import { recordTransmissions, TransmissionRow } from '../_shared/transmissions.ts';
+import { advanceIncidentStatus, clearStaleIncidents, detectIncidentStatus } from '../_shared/incident-status.ts';
+import { AlarmEscalation, escalateIncidentAlarm, initialAlarmLevel } from '../_shared/incident-escalation.ts';
+import { assignIncidentUnits } from '../_shared/unit-assignments.ts';
 
 const BROADCASTIFY_LIVE_ENDPOINT = 'https://api.bcfy.io/calls/v1/live/';
-const GROUP_ID = '2-1147';
+const MAX_RETRIES_PER_RUN = 10;
+const MAX_ORPHANS_PER_RUN = 20;
+// Renewed before every batch, so this only needs to outlast one batch. A run killed by
+// the function timeout holds the lock for at most this long.
+const WORKER_LOCK_TTL_SECONDS = 180;
 
 interface BroadcastifyCall {
   groupId: string;
@@ -20,285 +44,189 @@ interface BroadcastifyLiveResponse {
   calls: BroadcastifyCall[];
 }
 
-function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
-  return Promise.race([
-    promise,
-    new Promise<T>((_, reject) =>
-      setTimeout(() => reject(new Error('Request timeout')), timeoutMs)
-    ),
-  ]);
+interface MonitoredGroup {
+  group_id: string;
+  agency: string;
+  default_incident_type: IncidentType | null;
+  last_pos: number;
 }
 
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+interface GroupFetch {
+  group: MonitoredGroup;
+  calls: BroadcastifyCall[];
+  lastPos: number;
+  committedPos: number;
 }
 
-class RateLimiter {
-  private lastRequest = 0;
-  private queue: Array<{ resolve: () => void; minIntervalMs: number }> = [];
-  private processing = false;
-
-  async acquire(minIntervalMs: number): Promise<void> {
-    return new Promise((resolve) => {
-      this.queue.push({ resolve, minIntervalMs });
-      if (!this.processing) {
-        this.processQueue();
-      }
-    });
-  }
-
-  private async processQueue(): Promise<void> {
-    if (this.processing) return;
-    this.processing = true;
-
-    while (this.queue.length > 0) {
-      const item = this.queue.shift();
-      if (!item) break;
-
-      const now = Date.now();
-      const timeSinceLastRequest = now - this.lastRequest;
-      const waitTime = Math.max(0, item.minIntervalMs - timeSinceLastRequest);
-
-      if (waitTime > 0) {
-        await delay(waitTime);
-      }
-
-      this.lastRequest = Date.now();
-      item.resolve();
+async function runWorker(supabase: SupabaseClient, lock: WorkerLock): Promise<Response> {
+  const ensureLock = async () => {
+    if (!(await lock.renew())) {
+      throw new Error('Worker lock was taken over by another run, stopping');
     }
-
-    this.processing = false;
-  }
-}
-
-const rateLimiters = {
-  nominatim: new RateLimiter(),
-  mapsCoKey1: new RateLimiter(),
-  mapsCoKey2: new RateLimiter(),
-};
-
-async function geocodeWithNominatim(query: string): Promise<[number, number] | null> {
-  await rateLimiters.nominatim.acquire(1000);
+  };
 
   try {
-    const viewbox = '-98.2,30.0,-97.4,30.6';
-    const response = await withTimeout(
-      fetch(
-        `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(query)}&format=json&limit=1&countrycodes=us&viewbox=${viewbox}&bounded=1`,
-        {
-          headers: {
-            'User-Agent': 'Austin-Fire-Map/1.0',
-          },
-        }
-      ),
-      5000
-    );
+    const geocodeCache = createGeocodeCache(supabase);
 
-    if (!response.ok) {
-      console.log(`Nominatim HTTP ${response.status} for "${query}"`);
-      return null;
-    }
-
-    const data = await response.json();
-    if (data && data.length > 0) {
-      const result = data[0];
-      console.log(`✓ Nominatim geocoding successful: [${result.lon}, ${result.lat}]`);
-      return [parseFloat(result.lon), parseFloat(result.lat)] as [number, number];
-    }
-  } catch (error) {
-    console.log(`Nominatim failed for "${query}":`, error instanceof Error ? error.message : 'Unknown error');
-  }
-  return null;
-}
+    console.log('\n=== BROADCASTIFY WORKER START ===');
 
-async function geocodeWithMapsCo(query: string, apiKey: string, keyName: string): Promise<[number, number] | null> {
-  const limiter = keyName === 'Key 1' ? rateLimiters.mapsCoKey1 : rateLimiters.mapsCoKey2;
-  await limiter.acquire(1000);
+    const transcriptionProviders = getTranscriptionProviders();
+    console.log('Transcription providers:', transcriptionProviders.map((p) => p.name).join(' → '));
 
-  try {
-    const queryWithLocation = `${query}, Austin, Travis County, Texas`;
-    const response = await withTimeout(
-      fetch(
-        `https://geocode.maps.co/search?q=${encodeURIComponent(queryWithLocation)}&api_key=${apiKey}`
-      ),
-      5000
-    );
+    const llmProvider = resolveLlmProvider((name) => Deno.env.get(name));
+    console.log('Parser backend:', llmProvider?.name ?? 'rules');
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        console.log(`Maps.co (${keyName}) rate limited (429) for "${query}"`);
-      } else {
-        console.log(`Maps.co (${keyName}) HTTP ${response.status} for "${query}"`);
-      }
-      return null;
-    }
+    const geocoders = getGeocoderProviders(supabase);
+    console.log('Geocoders:', geocoders.map((g) => g.name).join(' → '));
 
-    const data = await response.json();
-    if (data && data.length > 0) {
-      const result = data[0];
-      console.log(`✓ Maps.co (${keyName}) geocoding successful: [${result.lon}, ${result.lat}]`);
-      return [parseFloat(result.lon), parseFloat(result.lat)] as [number, number];
-    }
-  } catch (error) {
-    console.log(`Maps.co (${keyName}) failed for "${query}":`, error instanceof Error ? error.message : 'Unknown error');
-  }
-  return null;
-}
+    const pipeline: PipelineContext = { supabase, transcriptionProviders, llmProvider, geocoders, geocodeCache };
 
-function isWithinAustinArea(coordinates: [number, number]): boolean {
-  const [lon, lat] = coordinates;
+    const { data: groupRows, error: groupsError } = await supabase
+      .from('monitored_groups')
+      .select('group_id, agency, default_incident_type, last_pos')
+      .eq('enabled', true)
+      .order('group_id');
 
-  const bounds = {
-    north: 30.6,
-    south: 30.0,
-    west: -98.2,
-    east: -97.4
-  };
+    if (groupsError) {
+      console.error('Error fetching monitored groups:', groupsError);
+      return new Response(JSON.stringify({ error: 'Failed to fetch monitored groups' }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
 
-  const isInBounds = lat >= bounds.south && lat <= bounds.north &&
-                     lon >= bounds.west && lon <= bounds.east;
+    const groups = (groupRows || []) as MonitoredGroup[];
+    const groupsById = new Map(groups.map((group) => [group.group_id, group]));
+    console.log('Monitored groups:', groups.map((g) => `${g.group_id} (${g.agency})`).join(', ') || 'none');
 
-  if (!isInBounds) {
-    console.log(`⚠️ Coordinates [${lon}, ${lat}] are outside Austin/Travis County area`);
-  }
+    const auth = await authenticateUser();
+    const jwt = await generateBroadcastifyJWT(auth.uid, auth.token);
 
-  return isInBounds;
-}
+    // Each group has its own cursor, so one group failing to fetch doesn't hold back or
+    // skip calls for the others.
+    const fetches: GroupFetch[] = [];
+    const groupErrors: { groupId: string; error: string }[] = [];
 
-async function geocodeAddress(addressVariants: string[]): Promise<[number, number] | null> {
-  console.log(`Trying ${addressVariants.length} address variants with fallback geocoding`);
+    for (const group of groups) {
+      const lastPos = Number(group.last_pos);
+      const isFirstRun = lastPos === 0;
+      const url = isFirstRun
+        ? `${BROADCASTIFY_LIVE_ENDPOINT}?groups=${group.group_id}&init=1`
+        : `${BROADCASTIFY_LIVE_ENDPOINT}?groups=${group.group_id}&pos=${lastPos}`;
 
-  const mapsCoKey1 = Deno.env.get('GEOCODING_API_KEY');
-  const mapsCoKey2 = Deno.env.get('GEOCODING_API_KEY_2');
+      console.log(`\n[${group.group_id}] Current lastPos:`, lastPos, new Date(lastPos * 1000).toISOString());
+      console.log(isFirstRun ? '🔄 INITIAL RUN - Fetching last 25 calls with init=1' : '📡 Incremental update with pos parameter');
+      console.log('Fetching live calls from:', url);
 
-  for (const query of addressVariants) {
-    console.log(`Trying: "${query}"`);
+      try {
+        const response = await fetch(url, {
+          headers: {
+            Authorization: `Bearer ${jwt}`,
+          },
+        });
 
-    const nominatimResult = await geocodeWithNominatim(query);
-    if (nominatimResult && isWithinAustinArea(nominatimResult)) {
-      return nominatimResult;
-    }
+        if (!response.ok) {
+          const errorText = await response.text();
+          console.error('Broadcastify error response:', errorText);
+          throw new Error(`Broadcastify API error: ${response.statusText}`);
+        }
 
-    if (mapsCoKey1) {
-      const mapsCoResult1 = await geocodeWithMapsCo(query, mapsCoKey1, 'Key 1');
-      if (mapsCoResult1 && isWithinAustinArea(mapsCoResult1)) {
-        return mapsCoResult1;
-      }
-    }
+        const data: BroadcastifyLiveResponse = await response.json();
+        console.log('Calls count:', data.calls.length);
+        console.log('New lastPos:', data.lastPos);
 
-    if (mapsCoKey2) {
-      const mapsCoResult2 = await geocodeWithMapsCo(query, mapsCoKey2, 'Key 2');
-      if (mapsCoResult2 && isWithinAustinArea(mapsCoResult2)) {
-        return mapsCoResult2;
+        fetches.push({ group, calls: data.calls, lastPos: data.lastPos, committedPos: lastPos });
+      } catch (error) {
+        console.error(`[${group.group_id}] Fetch failed:`, error);
+        groupErrors.push({ groupId: group.group_id, error: error instanceof Error ? error.message : String(error) });
       }
     }
-  }
 
-  console.log(`❌ All geocoding attempts failed for all variants (or results outside Austin area)`);
-  return null;
-}
+    const newCalls = fetches.flatMap((f) => f.calls);
 
-async function transcribeAudio(audioUrl: string): Promise<string> {
-  try {
-    const deepgramApiKey = Deno.env.get('DEEPGRAM_API_KEY');
-    if (!deepgramApiKey) {
-      throw new Error('DEEPGRAM_API_KEY not configured');
-    }
+    const getExternalId = (call: BroadcastifyCall) => `${call.groupId}-${call.ts}-${call.start_ts}`;
 
-    const response = await fetch('https://api.deepgram.com/v1/listen?model=nova-2&smart_format=true&language=en-US', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Token ${deepgramApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ url: audioUrl }),
-    });
+    // A group's cursor only moves past a call once it is checkpointed: it has a
+    // call_processing row (finished by this run, or picked up as an orphan by the next
+    // one) or it is in failed_calls. A run that dies mid-batch refetches everything it
+    // hadn't reached.
+    const checkpointed = new Set<string>();
 
-    if (!response.ok) {
-      throw new Error(`Deepgram transcription failed: ${response.statusText}`);
-    }
+    const commitCursors = async () => {
+      for (const groupFetch of fetches) {
+        const pending = groupFetch.calls.filter((call) => !checkpointed.has(getExternalId(call)));
+        const cursor = pending.length === 0
+          ? groupFetch.lastPos
+          : Math.min(...pending.map((call) => call.ts)) - 1;
 
-    const result = await response.json();
-    const transcript = result?.results?.channels?.[0]?.alternatives?.[0]?.transcript;
+        if (cursor <= groupFetch.committedPos) continue;
 
-    if (!transcript) {
-      throw new Error('No transcript returned from Deepgram');
-    }
+        await ensureLock();
+        const { error: cursorError } = await supabase
+          .from('monitored_groups')
+          .update({ last_pos: cursor, updated_at: new Date().toISOString() })
+          .eq('group_id', groupFetch.group.group_id);
 
-    return transcript;
-  } catch (error) {
-    console.error('Transcription error:', error);
-    throw error;
-  }
-}
-
-Deno.serve(async () => {
-  try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    console.log('\n=== BROADCASTIFY WORKER START ===');
+        if (cursorError) {
+          console.error(`[${groupFetch.group.group_id}] Error saving lastPos:`, cursorError);
+          continue;
+        }
 
-    const { data: stateData, error: stateError } = await supabase
-      .from('worker_state')
-      .select('value')
-      .eq('key', 'lastPos')
-      .single();
+        groupFetch.committedPos = cursor;
+        console.log(`📍 [${groupFetch.group.group_id}] Cursor committed at ${cursor}${pending.length > 0 ? ` (${pending.length} calls not yet checkpointed)` : ''}`);
+      }
+    };
 
-    if (stateError) {
-      console.error('Error fetching lastPos:', stateError);
-      return new Response(JSON.stringify({ error: 'Failed to fetch worker state' }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    // Calls that failed in earlier runs and are due for another attempt. Their previous
+    // attempt count drives the backoff if they fail again.
+    const dueFailedCalls = await fetchDueFailedCalls<BroadcastifyCall>(supabase, MAX_RETRIES_PER_RUN);
+    const retryAttempts = new Map(dueFailedCalls.map((row) => [row.external_id, row.attempts]));
+    const newCallIds = new Set(newCalls.map(getExternalId));
+    const retryCalls = dueFailedCalls
+      .filter((row) => !newCallIds.has(row.external_id))
+      .map((row) => row.call);
+
+    if (dueFailedCalls.length > 0) {
+      console.log(`↻ Retrying ${dueFailedCalls.length} previously failed calls`);
     }
 
-    const lastPos = parseInt(stateData.value, 10);
-    console.log('Current lastPos:', lastPos, new Date(lastPos * 1000).toISOString());
-
-    const auth = await authenticateUser();
-    const jwt = await generateBroadcastifyJWT(auth.uid, auth.token);
-
-    const isFirstRun = lastPos === 0;
-    const url = isFirstRun
-      ? `${BROADCASTIFY_LIVE_ENDPOINT}?groups=${GROUP_ID}&init=1`
-      : `${BROADCASTIFY_LIVE_ENDPOINT}?groups=${GROUP_ID}&pos=${lastPos}`;
-
-    console.log(isFirstRun ? '🔄 INITIAL RUN - Fetching last 25 calls with init=1' : '📡 Incremental update with pos parameter');
-    console.log('Fetching live calls from:', url);
+    const orphanCalls = (await fetchOrphanedCalls<BroadcastifyCall>(supabase, MAX_ORPHANS_PER_RUN))
+      .filter((row) => !newCallIds.has(row.external_id) && !retryAttempts.has(row.external_id))
+      .map((row) => row.call);
 
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${jwt}`,
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Broadcastify error response:', errorText);
-      throw new Error(`Broadcastify API error: ${response.statusText}`);
+    if (orphanCalls.length > 0) {
+      console.log(`↻ Resuming ${orphanCalls.length} calls left unfinished by an earlier run`);
     }
 
-    const data: BroadcastifyLiveResponse = await response.json();
-    console.log('Calls count:', data.calls.length);
-    console.log('New lastPos:', data.lastPos);
-
-    await supabase
-      .from('worker_state')
-      .update({ value: data.lastPos.toString(), updated_at: new Date().toISOString() })
-      .eq('key', 'lastPos');
+    // Runs every minute whether or not there are new calls, so quiet incidents clear.
+    const clearedStale = await clearStaleIncidents(supabase);
+    if (clearedStale > 0) {
+      console.log(`✓ Cleared ${clearedStale} stale incidents`);
+    }
 
-    if (data.calls.length === 0) {
+    if (newCalls.length === 0 && retryCalls.length === 0 && orphanCalls.length === 0) {
+      await commitCursors();
       console.log('No new calls');
-      return new Response(JSON.stringify({ processed: 0, skipped: 0 }), {
+      return new Response(JSON.stringify({ processed: 0, skipped: 0, cleared: clearedStale, groupErrors }), {
         status: 200,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
+    const callsById = new Map<string, BroadcastifyCall>();
+    let failed = 0;
+
+    const recordFailure = async (externalId: string, stage: FailedCallStage, error: unknown) => {
+      failed++;
+      const call = callsById.get(externalId);
+      if (call && await recordFailedCall(supabase, externalId, call, stage, error, retryAttempts.get(externalId) ?? 0)) {
+        checkpointed.add(externalId);
+        await completeCallProcessing(supabase, [externalId], 'dead_lettered');
+      }
+    };
+
     console.log('\n=== PRIORITY SORTING ===');
-    const callsWithPriority = data.calls.map((call) => {
+    const callsWithPriority = [...newCalls, ...retryCalls, ...orphanCalls].map((call) => {
       const estimatedResolution = quickEstimateResolution(call.descr || '');
       const age = (Date.now() - call.ts * 1000) / (1000 * 60);
       const willShowInDynamicFilter = age < estimatedResolution;
@@ -316,23 +244,31 @@ Deno.serve(async () => {
 
     console.log('\n=== PROCESSING IN BATCHES ===');
 
-    interface ProcessedIncident {
-      call_type: string;
-      address: string;
-      location: string | null;
-      units: string[];
-      channels: string[];
+    interface ProcessedIncident extends DerivedIncidentFields {
+      agency: string | null;
       timestamp: string;
       audio_url: string;
       raw_transcript: string;
-      estimated_resolution_minutes: number | null;
-      incident_type: 'fire' | 'medical' | 'traffic';
       group_id: string;
       duration: number;
       external_id: string;
     }
 
     const processedIncidents: ProcessedIncident[] = [];
+    // Each call as transcribed, before dedup and merging rewrite its units and call type.
+    const transmissionsById = new Map<string, TransmissionRow>();
+    // external_id of a kept incident → the calls folded into it during this run.
+    const absorbedBy = new Map<string, string[]>();
+    const absorb = (targetId: string, sourceId: string) => {
+      absorbedBy.set(targetId, [...(absorbedBy.get(targetId) || []), sourceId]);
+    };
+    const collectTransmissions = (externalId: string): TransmissionRow[] => [
+      ...(transmissionsById.has(externalId) ? [transmissionsById.get(externalId)!] : []),
+      ...(absorbedBy.get(externalId) || []).flatMap(collectTransmissions),
+    ];
+    // Every call folded into an incident, directly or through a call folded into it
+    const collectAbsorbed = (externalId: string): string[] =>
+      (absorbedBy.get(externalId) || []).flatMap((id) => [id, ...collectAbsorbed(id)]);
     const BATCH_SIZE = 20;
 
     for (let i = 0; i < callsWithPriority.length; i += BATCH_SIZE) {
@@ -341,14 +277,19 @@ Deno.serve(async () => {
       const totalBatches = Math.ceil(callsWithPriority.length / BATCH_SIZE);
 
       console.log(`\n🔄 Processing batch ${batchNum}/${totalBatches} (${batch.length} calls)`);
+      await ensureLock();
 
       const batchResults = await Promise.all(
         batch.map(async ({ call }) => {
+          const externalId = getExternalId(call);
+          // Retried or resumed calls may belong to a group that has since been disabled.
+          const group = groupsById.get(call.groupId);
+          callsById.set(externalId, call);
+          let stage: FailedCallStage = 'transcribe';
+
           try {
             console.log(`  Transcribing call ${call.ts}...`);
 
-            const externalId = `${call.groupId}-${call.ts}-${call.start_ts}`;
-
             const { data: existingIncident } = await supabase
               .from('incidents')
               .select('id')
@@ -357,79 +298,65 @@ Deno.serve(async () => {
 
             if (existingIncident) {
               console.log(`  → Incident ${externalId} already exists, skipping`);
+              if (retryAttempts.has(externalId)) {
+                await resolveFailedCall(supabase, externalId);
+              }
+              checkpointed.add(externalId);
+              await completeCallProcessing(supabase, [externalId], 'existing');
               return null;
             }
 
-            const transcript = await transcribeAudio(call.url);
-            console.log(`  ✓ Transcribed ${call.ts}: "${transcript.substring(0, 60)}..."`);
+            // Stage outputs persisted by an earlier attempt are reused, so a call retried
+            // after a geocode failure doesn't pay for transcription again.
+            let record = await loadCallProcessing<BroadcastifyCall>(supabase, externalId)
+              ?? await createCallProcessing(supabase, externalId, call);
+            checkpointed.add(externalId);
 
-            const parsed = await parseDispatchCallWithAI(transcript);
-            let finalCallType = parsed.callType || '?';
-
-            // Validate that callType is not too generic
-            const genericCallTypes = ['fire', 'medical', 'ems', 'traffic'];
-            if (finalCallType && finalCallType !== '?' &&
-                genericCallTypes.includes(finalCallType.toLowerCase().trim())) {
-              console.log(`  ⚠️ Call type "${finalCallType}" is too generic, attempting to infer from transcript`);
-
-              // Try to get more context from transcript
-              const transcriptLower = transcript.toLowerCase();
-              if (transcriptLower.includes('alarm') || transcriptLower.includes('smoke')) {
-                finalCallType = 'Fire Alarm';
-                console.log(`  ✓ Enriched to "${finalCallType}"`);
-              } else if (transcriptLower.includes('standby')) {
-                finalCallType = finalCallType + ' Standby';
-                console.log(`  ✓ Enriched to "${finalCallType}"`);
-              } else if (transcriptLower.includes('check') || transcriptLower.includes('verify')) {
-                finalCallType = finalCallType + ' Investigation';
-                console.log(`  ✓ Enriched to "${finalCallType}"`);
-              } else {
-                console.log(`  ℹ️ Unable to make "${finalCallType}" more specific, keeping as-is`);
-              }
+            // Refetched after a cursor rollback, but already settled (e.g. merged into
+            // another incident). Dead-lettered calls only come back through retries.
+            if (record.completed_at !== null && !retryAttempts.has(externalId)) {
+              console.log(`  → Call ${externalId} already completed (${record.outcome}), skipping`);
+              return null;
             }
 
-            let coordinates: [number, number] | null = null;
-            if (parsed.address && parsed.addressVariants.length > 0) {
-              coordinates = await geocodeAddress(parsed.addressVariants);
+            if (record.transcribed_at === null) {
+              record = await runTranscribeStage(pipeline, record);
+            } else {
+              console.log(`  ↺ Reusing stored transcript for ${externalId}`);
             }
+            const transcript = record.transcript!;
+            console.log(`  ✓ Transcribed ${call.ts}: "${transcript.substring(0, 60)}..."`);
 
-            let incidentType = parsed.incidentType;
-            if (!incidentType) {
-              const callTypeLower = finalCallType.toLowerCase();
-              if (callTypeLower.includes('fire') || callTypeLower.includes('alarm') ||
-                  callTypeLower.includes('smoke') || callTypeLower.includes('hazmat')) {
-                incidentType = 'fire';
-              } else if (callTypeLower.includes('medical') || callTypeLower.includes('ems') ||
-                         callTypeLower.includes('cardiac') || callTypeLower.includes('stroke') ||
-                         callTypeLower.includes('chest') || callTypeLower.includes('respiratory') ||
-                         callTypeLower.includes('unconscious') || callTypeLower.includes('overdose') ||
-                         callTypeLower.includes('injury') || callTypeLower.includes('fall')) {
-                incidentType = 'medical';
-              } else {
-                incidentType = 'traffic';
-              }
+            stage = 'parse';
+            if (record.parsed_at === null) {
+              record = await runParseStage(pipeline, record);
+            }
+            const parsed = record.parsed!;
+
+            stage = 'geocode';
+            if (record.geocoded_at === null) {
+              record = await runGeocodeStage(pipeline, record);
             }
 
             const incident: ProcessedIncident = {
-              call_type: finalCallType,
-              address: parsed.address || '?',
-              location: coordinates ? `POINT(${coordinates[0]} ${coordinates[1]})` : null,
-              units: parsed.units,
-              channels: parsed.channels,
+              ...deriveIncidentFields(parsed, transcript, record.geocode, group?.default_incident_type ?? null),
+              agency: group?.agency ?? null,
               timestamp: new Date(call.ts * 1000).toISOString(),
               audio_url: call.url,
               raw_transcript: transcript,
-              estimated_resolution_minutes: parsed.estimatedResolutionMinutes,
-              incident_type: incidentType,
               group_id: call.groupId,
               duration: call.duration,
               external_id: externalId,
             };
 
             console.log(`  ✓ Processed incident ${externalId}`);
+            if (retryAttempts.has(externalId)) {
+              await resolveFailedCall(supabase, externalId);
+            }
             return incident;
           } catch (error) {
-            console.error(`  ✗ Error processing call ${call.ts}:`, error);
+            console.error(`  ✗ Error processing call ${call.ts} at ${stage}:`, error);
+            await recordFailure(externalId, stage, error);
             return null;
           }
         })
@@ -438,10 +365,21 @@ Deno.serve(async () => {
       for (const incident of batchResults) {
         if (incident) {
           processedIncidents.push(incident);
+          transmissionsById.set(incident.external_id, {
+            external_id: incident.external_id,
+            group_id: incident.group_id,
+            timestamp: incident.timestamp,
+            audio_url: incident.audio_url,
+            raw_transcript: incident.raw_transcript,
+            duration: incident.duration,
+            call_type: incident.call_type,
+            units: incident.units,
+          });
         }
       }
 
       console.log(`✓ Batch ${batchNum} complete: ${batchResults.filter(i => i !== null).length}/${batch.length} successful`);
+      await commitCursors();
     }
 
     console.log(`\n=== DEDUPLICATION ===`);
@@ -451,7 +389,8 @@ Deno.serve(async () => {
       new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
     );
 
-    const assignedUnits = new Set<string>();
+    // unit → external_id of the newest incident it was dispatched to
+    const assignedUnits = new Map<string, string>();
     const afterUnitReassignment: ProcessedIncident[] = [];
 
     for (const incident of sorted) {
@@ -464,6 +403,7 @@ Deno.serve(async () => {
 
       if (availableUnits.length === 0) {
         console.log(`  → Removing incident ${incident.external_id} at ${incident.address} (all units reassigned)`);
+        absorb(assignedUnits.get(incident.units[0])!, incident.external_id);
         continue;
       }
 
@@ -472,7 +412,7 @@ Deno.serve(async () => {
         units: availableUnits,
       });
 
-      availableUnits.forEach(unit => assignedUnits.add(unit));
+      availableUnits.forEach(unit => assignedUnits.set(unit, incident.external_id));
     }
 
     console.log(`After unit reassignment: ${processedIncidents.length} → ${afterUnitReassignment.length} incidents`);
@@ -491,6 +431,8 @@ Deno.serve(async () => {
 
     const seenByCallType = new Map<string, ProcessedIncident[]>();
     const deduplicated: ProcessedIncident[] = [];
+    // Calls with nothing to show; finished here, as no incident will carry them
+    const droppedIds: string[] = [];
 
     for (const incident of afterUnitReassignment) {
       const normalizedCallType = normalizeCallType(incident.call_type);
@@ -520,6 +462,7 @@ Deno.serve(async () => {
           new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
         );
         deduplicated.push(sortedByTime[0]);
+        sortedByTime.slice(1).forEach((older) => absorb(sortedByTime[0].external_id, older.external_id));
 
         if (sortedByTime.length > 1) {
           console.log(`  → Keeping newest of ${sortedByTime.length} incidents at address ${address}`);
@@ -537,6 +480,7 @@ Deno.serve(async () => {
         for (const incident of incidentsWithoutAddress) {
           if (!incident.units || incident.units.length === 0) {
             console.log(`  → Removing incident ${incident.external_id} with no address and no units`);
+            droppedIds.push(incident.external_id, ...collectAbsorbed(incident.external_id));
             continue;
           }
 
@@ -546,12 +490,15 @@ Deno.serve(async () => {
             deduplicated.push(incident);
           } else {
             console.log(`  → Removing incident ${incident.external_id} with no address (all units in addressed incidents)`);
+            const owner = incidentsWithAddress.find(inc => inc.units?.includes(incident.units[0]))!;
+            absorb(owner.external_id, incident.external_id);
           }
         }
       }
     }
 
     console.log(`After address+callType deduplication: ${afterUnitReassignment.length} → ${deduplicated.length} incidents`);
+    await completeCallProcessing(supabase, droppedIds, 'dropped');
 
     console.log('\n=== MERGING RELATED INCIDENTS ===');
     const TIME_WINDOW_MS = 5 * 60 * 1000;
@@ -653,6 +600,9 @@ Deno.serve(async () => {
         if (!targetIncident.location && sourceIncident.location) {
           console.log(`  → Merging coordinates from ${sourceIncident.external_id} into ${targetIncident.external_id}`);
           targetIncident.location = sourceIncident.location;
+          targetIncident.geocode_precision = sourceIncident.geocode_precision;
+          targetIncident.geocode_provider = sourceIncident.geocode_provider;
+          targetIncident.geocode_variant = sourceIncident.geocode_variant;
         }
 
         if (!targetIncident.units || targetIncident.units.length === 0) {
@@ -665,6 +615,7 @@ Deno.serve(async () => {
         }
 
         console.log(`  → Removing duplicate incident ${sourceIncident.external_id}`);
+        absorb(targetIncident.external_id, sourceIncident.external_id);
         deduplicated.splice(sourceIndex, 1);
 
         if (sourceIndex < i) {
@@ -677,67 +628,164 @@ Deno.serve(async () => {
     console.log(`After merging related incidents: ${deduplicated.length} incidents`);
 
     console.log('\n=== INSERTING INTO DATABASE ===');
+    await ensureLock();
     let completed = 0;
     let skipped = 0;
     const appUrl = Deno.env.get('APP_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const pushPromises: Promise<void>[] = [];
+    const insertedIds: string[] = [];
+    const mergedIntoExisting: string[] = [];
+    // Calls folded into an incident that was stored; they finish only once it is
+    const absorbedIds: string[] = [];
+    let escalated = 0;
+    let unitsAssigned = 0;
+
+    const sendPush = (externalId: string, payload: Record<string, unknown>) => {
+      if (!appUrl) return;
+
+      pushPromises.push(
+        fetch(`${appUrl}/api/push/send`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${supabaseServiceKey}`,
+          },
+          body: JSON.stringify({ ...payload, external_id: externalId }),
+        })
+          .then((res) => {
+            if (res.ok) console.log(`  📱 Push sent for ${externalId}`);
+            else console.log(`  ⚠️ Push failed for ${externalId}: ${res.status}`);
+          })
+          .catch((err) => {
+            console.log(`  ⚠️ Push error for ${externalId}:`, err.message);
+          })
+      );
+    };
+
+    // One push per escalation, to subscriptions that opted in to escalations.
+    const notifyEscalations = (externalId: string, incident: ProcessedIncident, escalations: AlarmEscalation[]) => {
+      for (const escalation of escalations) {
+        console.log(`  🔺 ${externalId} escalated to alarm ${escalation.to_level}`);
+        escalated++;
+        sendPush(externalId, {
+          call_type: incident.call_type,
+          address: incident.address,
+          location: incident.location,
+          units: incident.units,
+          incident_type: incident.incident_type,
+          audio_url: escalation.audio_url,
+          alarm_level: escalation.to_level,
+          escalation: { from_level: escalation.from_level, to_level: escalation.to_level },
+        });
+      }
+    };
+
+    // The calls folded into an incident are retried with it, or they'd be lost along with it
+    const recordInsertFailure = async (externalId: string, error: unknown) => {
+      for (const id of [externalId, ...collectAbsorbed(externalId)]) {
+        await recordFailure(id, 'insert', error);
+      }
+    };
 
     for (const incident of deduplicated) {
       try {
-        const { error: insertError } = await supabase
+        // A follow-up transmission for an incident stored by an earlier run updates that
+        // incident instead of becoming a second one.
+        const transmissions = collectTransmissions(incident.external_id);
+        const statusCue = detectIncidentStatus(transmissions);
+        const match = await findMatchingIncident(supabase, incident, statusCue !== null);
+        if (match) {
+          await mergeIntoIncident(supabase, match, incident);
+          await recordTransmissions(supabase, match.id, transmissions);
+          // Before the status, so a "returning" cue releases the units it commits
+          unitsAssigned += await assignIncidentUnits(supabase, match.id, transmissions);
+          if (statusCue && await advanceIncidentStatus(supabase, match.id, statusCue)) {
+            console.log(`  ↗ ${match.external_id} is now ${statusCue.status} ("${statusCue.cue}")`);
+          }
+          notifyEscalations(match.external_id, incident, await escalateIncidentAlarm(supabase, match.id, transmissions));
+          console.log(`  ↪ Merged ${incident.external_id} into existing incident ${match.external_id} (${match.match_reason})`);
+          mergedIntoExisting.push(incident.external_id);
+          absorbedIds.push(...collectAbsorbed(incident.external_id));
+          continue;
+        }
+
+        const { data: inserted, error: insertError } = await supabase
           .from('incidents')
-          .insert([incident]);
+          .insert([{ ...incident, alarm_level: initialAlarmLevel(transmissions) }])
+          .select('id')
+          .single();
 
-        if (insertError) {
+        if (insertError || !inserted) {
           console.error(`  ✗ Error inserting incident ${incident.external_id}:`, insertError);
+          await recordInsertFailure(incident.external_id, insertError?.message ?? 'Insert returned no row');
           skipped++;
         } else {
           console.log(`  ✓ Inserted incident ${incident.external_id}`);
-          completed++;
-
-          if (appUrl) {
-            pushPromises.push(
-              fetch(`${appUrl}/api/push/send`, {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${supabaseServiceKey}`,
-                },
-                body: JSON.stringify({
-                  call_type: incident.call_type,
-                  address: incident.address,
-                  location: incident.location,
-                  units: incident.units,
-                  incident_type: incident.incident_type,
-                  external_id: incident.external_id,
-                  audio_url: incident.audio_url,
-                }),
-              })
-                .then((res) => {
-                  if (res.ok) console.log(`  📱 Push sent for ${incident.external_id}`);
-                  else console.log(`  ⚠️ Push failed for ${incident.external_id}: ${res.status}`);
-                })
-                .catch((err) => {
-                  console.log(`  ⚠️ Push error for ${incident.external_id}:`, err.message);
-                })
-            );
+          await recordTransmissions(supabase, inserted.id, transmissions);
+          unitsAssigned += await assignIncidentUnits(supabase, inserted.id, transmissions);
+          if (statusCue && await advanceIncidentStatus(supabase, inserted.id, statusCue)) {
+            console.log(`  ↗ ${incident.external_id} is now ${statusCue.status} ("${statusCue.cue}")`);
           }
+          completed++;
+          insertedIds.push(incident.external_id);
+          absorbedIds.push(...collectAbsorbed(incident.external_id));
+
+          sendPush(incident.external_id, {
+            call_type: incident.call_type,
+            address: incident.address,
+            location: incident.location,
+            units: incident.units,
+            incident_type: incident.incident_type,
+            audio_url: incident.audio_url,
+            alarm_level: initialAlarmLevel(transmissions),
+          });
+          // Upgrades heard later in the same run, after the dispatch
+          notifyEscalations(incident.external_id, incident, await escalateIncidentAlarm(supabase, inserted.id, transmissions));
         }
       } catch (error) {
         console.error(`  ✗ Error inserting incident ${incident.external_id}:`, error);
+        await recordInsertFailure(incident.external_id, error);
         skipped++;
       }
     }
 
+    await completeCallProcessing(supabase, insertedIds, 'inserted');
+    await completeCallProcessing(supabase, [...mergedIntoExisting, ...absorbedIds], 'merged');
     await Promise.allSettled(pushPromises);
 
     console.log('\n=== WORKER COMPLETE ===');
     console.log('Total processed:', processedIncidents.length);
     console.log('After deduplication:', deduplicated.length);
     console.log('Successfully inserted:', completed);
+    console.log('Merged into existing incidents:', mergedIntoExisting.length);
+    console.log('Escalated:', escalated);
+    console.log('Units assigned:', unitsAssigned);
+    console.log('Cleared as stale:', clearedStale);
     console.log('Failed:', skipped);
+    console.log('Retried from dead-letter queue:', dueFailedCalls.length);
+    console.log('Queued for retry:', failed);
+    console.log('Resumed from earlier runs:', orphanCalls.length);
+    for (const groupFetch of fetches) {
+      console.log(`Cursor [${groupFetch.group.group_id}]:`, groupFetch.committedPos);
+    }
 
-    return new Response(JSON.stringify({ processed: completed, skipped }), {
+    const geocodeCacheStats = geocodeCache.stats();
+    console.log(`Geocode cache: ${geocodeCacheStats.hits} hits, ${geocodeCacheStats.negativeHits} negative hits, ${geocodeCacheStats.misses} misses (hit rate ${(geocodeCacheStats.hitRate * 100).toFixed(1)}%)`);
+
+    return new Response(JSON.stringify({
+      processed: completed,
+      merged: mergedIntoExisting.length,
+      escalated,
+      unitsAssigned,
+      cleared: clearedStale,
+      skipped,
+      retried: dueFailedCalls.length,
+      resumed: orphanCalls.length,
+      failed,
+      groupErrors,
+      geocodeCache: geocodeCacheStats,
+    }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
     });
@@ -748,4 +796,34 @@ Deno.serve(async () => {
       headers: { 'Content-Type': 'application/json' },
     });
   }
+}
+
+Deno.serve(async () => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  let lock: WorkerLock | null;
+  try {
+    lock = await acquireWorkerLock(supabase, WORKER_LOCK_TTL_SECONDS);
+  } catch (error) {
+    console.error('Worker error:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!lock) {
+    return new Response(JSON.stringify({ processed: 0, skipped: 'locked' }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    return await runWorker(supabase, lock);
+  } finally {
+    await lock.release();
+  }
 });
@@ -0,0 +1,341 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { parseDispatchCallWithAI, resolveLlmProvider, PARSER_VERSION } from '../_shared/dispatch-parser.ts';
+import { createGeocodeCache, geocodeAddress, getGeocoderProviders, GeocodePrecision, GeocodeResult } from '../_shared/geocoding.ts';
+import { deriveIncidentFields, DerivedIncidentFields, IncidentType } from '../_shared/incident-fields.ts';
+import { hasAddress, hasCallType } from '../_shared/incident-merge.ts';
+import { assignIncidentUnits } from '../_shared/unit-assignments.ts';
+
+// Re-runs parsing and geocoding over every transmission of existing incidents, oldest
+// first, and rewrites the derived columns in place. Transmissions are folded together the
+// way the worker merges calls, units already on the incident are kept, and a stored
+// geocode is only replaced by a more precise one. Dry run is the default and only reports
+// what would change; pass "dryRun": false to apply, which also reassigns the units heard.
+//
+// POST { "externalIds": ["2-1147-..."] }
+// POST { "since": "2025-06-01T00:00:00Z", "until": "...", "outdatedOnly": true, "dryRun": false }
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+const BATCH_SIZE = 10;
+
+// Best first, as in GeocodePrecision
+const PRECISION_ORDER: GeocodePrecision[] = ['rooftop', 'interpolated', 'intersection', 'street', 'none'];
+
+const COMPARED_FIELDS = [
+  'call_type',
+  'address',
+  'location',
+  'geocode_precision',
+  'units',
+  'channels',
+  'incident_type',
+  'estimated_resolution_minutes',
+] as const;
+
+type ComparedField = typeof COMPARED_FIELDS[number];
+
+interface ReprocessRequest {
+  externalIds?: string[];
+  since?: string;
+  until?: string;
+  limit?: number;
+  outdatedOnly?: boolean;
+  dryRun?: boolean;
+}
+
+interface StoredIncident {
+  id: string;
+  external_id: string;
+  group_id: string;
+  timestamp: string;
+  raw_transcript: string;
+  call_type: string;
+  address: string;
+  location: string | null;
+  geocode_precision: GeocodePrecision | null;
+  geocode_provider: string | null;
+  geocode_variant: string | null;
+  units: string[] | null;
+  channels: string[] | null;
+  incident_type: string | null;
+  estimated_resolution_minutes: number | null;
+  parser_version: number | null;
+}
+
+interface StoredTransmission {
+  external_id: string;
+  timestamp: string;
+  raw_transcript: string;
+}
+
+interface IncidentDiff {
+  externalId: string;
+  parserVersion: number | null;
+  changes: Partial<Record<ComparedField, { from: unknown; to: unknown }>>;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// PostgREST returns geography columns as hex EWKB; new rows are built as WKT.
+function parsePoint(location: string | null): [number, number] | null {
+  if (!location) return null;
+
+  const wkt = location.match(/POINT\(([^\s]+)\s+([^\s]+)\)/);
+  if (wkt) {
+    return [parseFloat(wkt[1]), parseFloat(wkt[2])];
+  }
+
+  if (location.startsWith('0101000020')) {
+    const buffer = new Uint8Array(location.match(/.{1,2}/g)!.map((byte) => parseInt(byte, 16)));
+    const view = new DataView(buffer.buffer);
+    const littleEndian = view.getUint8(0) === 1;
+    return [view.getFloat64(9, littleEndian), view.getFloat64(17, littleEndian)];
+  }
+
+  return null;
+}
+
+function formatPoint(location: string | null): string | null {
+  const point = parsePoint(location);
+  return point ? `${point[0].toFixed(6)},${point[1].toFixed(6)}` : null;
+}
+
+// A later transmission fills in what earlier ones left out, as in mergeIntoIncident
+function mergeTransmissionFields(fields: DerivedIncidentFields, later: DerivedIncidentFields): DerivedIncidentFields {
+  const merged = {
+    ...fields,
+    units: [...new Set([...fields.units, ...later.units])],
+    channels: [...new Set([...fields.channels, ...later.channels])],
+  };
+
+  if (!hasCallType(merged.call_type) && hasCallType(later.call_type)) {
+    merged.call_type = later.call_type;
+    merged.incident_type = later.incident_type;
+  }
+  if (!hasAddress(merged.address) && hasAddress(later.address)) {
+    merged.address = later.address;
+  }
+  if (!merged.location && later.location) {
+    merged.location = later.location;
+    merged.geocode_precision = later.geocode_precision;
+    merged.geocode_provider = later.geocode_provider;
+    merged.geocode_variant = later.geocode_variant;
+  }
+
+  return merged;
+}
+
+// Reprocessing can only add to what the incident gathered from earlier merges
+function keepStoredFields(stored: StoredIncident, fields: DerivedIncidentFields): DerivedIncidentFields {
+  const kept = {
+    ...fields,
+    units: [...new Set([...(stored.units || []), ...fields.units])],
+    channels: [...new Set([...(stored.channels || []), ...fields.channels])],
+  };
+
+  const storedPrecision = stored.geocode_precision ?? 'none';
+  if (stored.location && (!fields.location ||
+      PRECISION_ORDER.indexOf(storedPrecision) <= PRECISION_ORDER.indexOf(fields.geocode_precision))) {
+    kept.address = stored.address;
+    kept.location = stored.location;
+    kept.geocode_precision = storedPrecision;
+    kept.geocode_provider = stored.geocode_provider;
+    kept.geocode_variant = stored.geocode_variant;
+  } else if (!fields.location && !hasAddress(fields.address) && hasAddress(stored.address)) {
+    kept.address = stored.address;
+  }
+
+  return kept;
+}
+
+function diffIncident(stored: StoredIncident, fields: DerivedIncidentFields): IncidentDiff['changes'] {
+  const changes: IncidentDiff['changes'] = {};
+
+  for (const field of COMPARED_FIELDS) {
+    let from: unknown = stored[field];
+    let to: unknown = fields[field];
+
+    if (field === 'location') {
+      from = formatPoint(stored.location);
+      to = formatPoint(fields.location);
+    } else if (field === 'units' || field === 'channels') {
+      from = [...(stored[field] || [])].sort();
+      to = [...fields[field]].sort();
+    }
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from: stored[field], to: fields[field] };
+    }
+  }
+
+  return changes;
+}
+
+Deno.serve(async (req) => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  if (req.headers.get('authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const { externalIds, since, until, limit, outdatedOnly, dryRun = true }: ReprocessRequest = await req.json();
+
+    if (!externalIds?.length && !since) {
+      return jsonResponse({ error: 'Provide externalIds or a since timestamp' }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log(`\n=== REPROCESS INCIDENTS (parser v${PARSER_VERSION}${dryRun ? ', dry run' : ''}) ===`);
+
+    let query = supabase
+      .from('incidents')
+      .select('id, external_id, group_id, timestamp, raw_transcript, call_type, address, location, geocode_precision, geocode_provider, geocode_variant, units, channels, incident_type, estimated_resolution_minutes, parser_version')
+      .not('raw_transcript', 'is', null)
+      .order('timestamp', { ascending: true })
+      .limit(Math.min(Math.max(limit || DEFAULT_LIMIT, 1), MAX_LIMIT));
+
+    if (externalIds?.length) {
+      query = query.in('external_id', externalIds);
+    } else {
+      query = query.gte('timestamp', since!);
+      if (until) {
+        query = query.lte('timestamp', until);
+      }
+    }
+
+    if (outdatedOnly) {
+      query = query.or(`parser_version.is.null,parser_version.lt.${PARSER_VERSION}`);
+    }
+
+    const { data: rows, error: fetchError } = await query;
+
+    if (fetchError) {
+      console.error('Error fetching incidents:', fetchError);
+      return jsonResponse({ error: 'Failed to fetch incidents' }, 500);
+    }
+
+    const incidents = (rows || []) as StoredIncident[];
+    console.log(`Reprocessing ${incidents.length} incidents`);
+
+    // Includes disabled groups: their incidents keep the group's default type.
+    const { data: groupRows } = await supabase
+      .from('monitored_groups')
+      .select('group_id, default_incident_type');
+    const defaultTypes = new Map(
+      ((groupRows || []) as { group_id: string; default_incident_type: IncidentType | null }[])
+        .map((group) => [group.group_id, group.default_incident_type])
+    );
+
+    const llmProvider = resolveLlmProvider((name) => Deno.env.get(name));
+    const geocoders = getGeocoderProviders(supabase);
+    const geocodeCache = createGeocodeCache(supabase);
+
+    const diffs: IncidentDiff[] = [];
+    const errors: { externalId: string; error: string }[] = [];
+    let unchanged = 0;
+    let updated = 0;
+    let unitsAssigned = 0;
+
+    for (let i = 0; i < incidents.length; i += BATCH_SIZE) {
+      const batch = incidents.slice(i, i + BATCH_SIZE);
+
+      await Promise.all(
+        batch.map(async (stored) => {
+          try {
+            const { data: transmissionRows, error: transmissionsError } = await supabase
+              .from('incident_transmissions')
+              .select('external_id, timestamp, raw_transcript')
+              .eq('incident_id', stored.id)
+              .order('timestamp', { ascending: true });
+
+            if (transmissionsError) {
+              throw new Error(transmissionsError.message);
+            }
+
+            // Incidents stored before transmissions were recorded only have their own call
+            const transmissions = (transmissionRows as StoredTransmission[] | null)?.length
+              ? transmissionRows as StoredTransmission[]
+              : [{ external_id: stored.external_id, timestamp: stored.timestamp, raw_transcript: stored.raw_transcript }];
+
+            let merged: DerivedIncidentFields | null = null;
+            const heardUnits: { external_id: string; timestamp: string; units: string[] }[] = [];
+
+            for (const transmission of transmissions) {
+              const parsed = await parseDispatchCallWithAI(transmission.raw_transcript, llmProvider);
+
+              // Later transmissions only fill in coordinates the earlier ones didn't find
+              let geocoded: GeocodeResult | null = null;
+              if (!merged?.location && parsed.address && parsed.addressVariants.length > 0) {
+                geocoded = await geocodeAddress(parsed.addressVariants, geocoders, geocodeCache);
+              }
+
+              const derived = deriveIncidentFields(
+                parsed,
+                transmission.raw_transcript,
+                geocoded,
+                defaultTypes.get(stored.group_id) ?? null
+              );
+              heardUnits.push({ external_id: transmission.external_id, timestamp: transmission.timestamp, units: derived.units });
+              merged = merged ? mergeTransmissionFields(merged, derived) : derived;
+            }
+
+            const fields = keepStoredFields(stored, merged!);
+            const changes = diffIncident(stored, fields);
+
+            if (Object.keys(changes).length > 0) {
+              diffs.push({ externalId: stored.external_id, parserVersion: stored.parser_version, changes });
+            } else {
+              unchanged++;
+            }
+
+            if (dryRun) return;
+
+            // Written even when nothing changed, so the row records the parser version
+            // that last checked it.
+            const { error: updateError } = await supabase
+              .from('incidents')
+              .update(fields)
+              .eq('id', stored.id);
+
+            if (updateError) {
+              throw new Error(updateError.message);
+            }
+            updated++;
+            unitsAssigned += await assignIncidentUnits(supabase, stored.id, heardUnits);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`  ✗ ${stored.external_id}:`, message);
+            errors.push({ externalId: stored.external_id, error: message });
+          }
+        })
+      );
+    }
+
+    console.log(`\n=== REPROCESS COMPLETE: ${diffs.length} changed, ${unchanged} unchanged, ${errors.length} failed ===`);
+
+    return jsonResponse({
+      dryRun,
+      parserVersion: PARSER_VERSION,
+      matched: incidents.length,
+      changed: diffs.length,
+      unchanged,
+      updated,
+      unitsAssigned,
+      failed: errors.length,
+      diffs,
+      errors,
+      geocodeCache: geocodeCache.stats(),
+    });
+  } catch (error) {
+    console.error('Reprocess error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
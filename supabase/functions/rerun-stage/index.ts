@@ -0,0 +1,139 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { resolveLlmProvider } from '../_shared/dispatch-parser.ts';
+import { getTranscriptionProviders } from '../_shared/transcription.ts';
+import { createGeocodeCache, getGeocoderProviders } from '../_shared/geocoding.ts';
+import {
+  runStage,
+  CallProcessingRecord,
+  PipelineContext,
+  ProcessingStage,
+  PROCESSING_STAGES,
+} from '../_shared/call-processing.ts';
+
+// Re-runs one pipeline stage over stored call_processing rows, e.g. re-parse every
+// transcript after a prompt change without transcribing the audio again. Only the
+// chosen stage is run; later stages keep their previous output until re-run too.
+//
+// POST { "stage": "parse", "externalIds": ["2-1147-..."] }
+// POST { "stage": "geocode", "since": "2025-06-01T00:00:00Z", "until": "...", "limit": 200 }
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+const BATCH_SIZE = 10;
+
+interface RerunRequest {
+  stage?: ProcessingStage;
+  externalIds?: string[];
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+interface StoredCall {
+  url: string;
+  ts: number;
+}
+
+// Each stage needs the output of the one before it.
+const REQUIRED_COLUMN: Record<ProcessingStage, string | null> = {
+  transcribe: null,
+  parse: 'transcribed_at',
+  geocode: 'parsed_at',
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req) => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  if (req.headers.get('authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const { stage, externalIds, since, until, limit }: RerunRequest = await req.json();
+
+    if (!stage || !PROCESSING_STAGES.includes(stage)) {
+      return jsonResponse({ error: `stage must be one of: ${PROCESSING_STAGES.join(', ')}` }, 400);
+    }
+    if (!externalIds?.length && !since) {
+      return jsonResponse({ error: 'Provide externalIds or a since timestamp' }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    console.log(`\n=== RERUN ${stage.toUpperCase()} ===`);
+
+    let query = supabase
+      .from('call_processing')
+      .select('*')
+      .order('call_timestamp', { ascending: true })
+      .limit(Math.min(Math.max(limit || DEFAULT_LIMIT, 1), MAX_LIMIT));
+
+    if (externalIds?.length) {
+      query = query.in('external_id', externalIds);
+    } else {
+      query = query.gte('call_timestamp', since!);
+      if (until) {
+        query = query.lte('call_timestamp', until);
+      }
+    }
+
+    const requiredColumn = REQUIRED_COLUMN[stage];
+    if (requiredColumn) {
+      query = query.not(requiredColumn, 'is', null);
+    }
+
+    const { data: rows, error: fetchError } = await query;
+
+    if (fetchError) {
+      console.error('Error fetching call_processing rows:', fetchError);
+      return jsonResponse({ error: 'Failed to fetch call_processing rows' }, 500);
+    }
+
+    const records = (rows || []) as CallProcessingRecord<StoredCall>[];
+    console.log(`Re-running ${stage} for ${records.length} calls`);
+
+    const pipeline: PipelineContext = {
+      supabase,
+      transcriptionProviders: getTranscriptionProviders(),
+      llmProvider: resolveLlmProvider((name) => Deno.env.get(name)),
+      geocoders: getGeocoderProviders(supabase),
+      geocodeCache: createGeocodeCache(supabase),
+    };
+
+    let completed = 0;
+    const errors: { externalId: string; error: string }[] = [];
+
+    for (let i = 0; i < records.length; i += BATCH_SIZE) {
+      const batch = records.slice(i, i + BATCH_SIZE);
+
+      await Promise.all(
+        batch.map(async (record) => {
+          try {
+            await runStage(stage, pipeline, record);
+            completed++;
+            console.log(`  ✓ ${stage} ${record.external_id}`);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`  ✗ ${stage} ${record.external_id}:`, message);
+            errors.push({ externalId: record.external_id, error: message });
+          }
+        })
+      );
+    }
+
+    console.log(`\n=== RERUN COMPLETE: ${completed}/${records.length} ===`);
+
+    return jsonResponse({ stage, matched: records.length, completed, errors });
+  } catch (error) {
+    console.error('Rerun error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
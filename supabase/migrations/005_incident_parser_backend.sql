@@ -0,0 +1,5 @@
+-- Record which parser backend (e.g. "openai:gpt-4o-mini", "openai-compatible:llama3.1"
+-- or "rules") produced each incident so parse quality can be compared across backends.
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS parser_backend TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_incidents_parser_backend ON incidents (parser_backend);
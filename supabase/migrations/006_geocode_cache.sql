@@ -0,0 +1,25 @@
+-- Persistent geocode cache shared across worker invocations. Keyed by the normalized
+-- address variant (lowercased, punctuation and extra whitespace removed). Rows with
+-- found = false are negative entries: every provider answered and none had the address,
+-- so the worker skips that variant until the entry expires.
+CREATE TABLE IF NOT EXISTS geocode_cache (
+  query_key TEXT PRIMARY KEY,
+  query TEXT NOT NULL,
+  found BOOLEAN NOT NULL,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  provider TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (NOT found OR (latitude IS NOT NULL AND longitude IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_geocode_cache_updated_at ON geocode_cache (updated_at);
+
+ALTER TABLE geocode_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to geocode_cache"
+  ON geocode_cache
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,138 @@
+-- Local gazetteer so geocoding keeps working without Nominatim or Maps.co. Loaded from
+-- the City of Austin address point and street centerline datasets (see the "Local
+-- Gazetteer" section of SUPABASE_DEPLOYMENT.md for the loader).
+
+-- Street names are compared in one canonical form: uppercase, no punctuation, standard
+-- USPS suffix and directional abbreviations, and interstates written as "IH 35".
+CREATE OR REPLACE FUNCTION normalize_street_name(p_name TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_name TEXT := upper(coalesce(p_name, ''));
+BEGIN
+  v_name := regexp_replace(v_name, '[^A-Z0-9 ]', ' ', 'g');
+  v_name := regexp_replace(v_name, '\m(INTERSTATE|IH|I)\s*(\d+)\M', 'IH \2', 'g');
+  v_name := regexp_replace(v_name, '\mSTREET\M', 'ST', 'g');
+  v_name := regexp_replace(v_name, '\mROAD\M', 'RD', 'g');
+  v_name := regexp_replace(v_name, '\mDRIVE\M', 'DR', 'g');
+  v_name := regexp_replace(v_name, '\mBOULEVARD\M', 'BLVD', 'g');
+  v_name := regexp_replace(v_name, '\mLANE\M', 'LN', 'g');
+  v_name := regexp_replace(v_name, '\mAVENUE\M', 'AVE', 'g');
+  v_name := regexp_replace(v_name, '\mCOURT\M', 'CT', 'g');
+  v_name := regexp_replace(v_name, '\mPLACE\M', 'PL', 'g');
+  v_name := regexp_replace(v_name, '\mPARKWAY\M', 'PKWY', 'g');
+  v_name := regexp_replace(v_name, '\mTRAIL\M', 'TRL', 'g');
+  v_name := regexp_replace(v_name, '\mCIRCLE\M', 'CIR', 'g');
+  v_name := regexp_replace(v_name, '\mHIGHWAY\M', 'HWY', 'g');
+  v_name := regexp_replace(v_name, '\mNORTH\M', 'N', 'g');
+  v_name := regexp_replace(v_name, '\mSOUTH\M', 'S', 'g');
+  v_name := regexp_replace(v_name, '\mEAST\M', 'E', 'g');
+  v_name := regexp_replace(v_name, '\mWEST\M', 'W', 'g');
+  RETURN trim(regexp_replace(v_name, '\s+', ' ', 'g'));
+END;
+$$;
+
+-- One row per addressable location (house, building entrance)
+CREATE TABLE IF NOT EXISTS gazetteer_address_points (
+  id BIGSERIAL PRIMARY KEY,
+  address_number INTEGER NOT NULL,
+  street_name TEXT NOT NULL,
+  street_name_normalized TEXT GENERATED ALWAYS AS (normalize_street_name(street_name)) STORED,
+  location GEOGRAPHY(POINT, 4326) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_gazetteer_address_points_street
+  ON gazetteer_address_points (street_name_normalized, address_number);
+
+-- One row per street segment, with the block range it covers. Multi-part centerlines
+-- must be split into single LINESTRINGs when loading so they can be interpolated.
+CREATE TABLE IF NOT EXISTS gazetteer_street_centerlines (
+  id BIGSERIAL PRIMARY KEY,
+  street_name TEXT NOT NULL,
+  street_name_normalized TEXT GENERATED ALWAYS AS (normalize_street_name(street_name)) STORED,
+  address_from INTEGER,
+  address_to INTEGER,
+  geom GEOMETRY(LINESTRING, 4326) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_gazetteer_centerlines_street
+  ON gazetteer_street_centerlines (street_name_normalized);
+CREATE INDEX IF NOT EXISTS idx_gazetteer_centerlines_geom
+  ON gazetteer_street_centerlines USING GIST (geom);
+
+-- House number (or the midpoint of a range) on a street: the exact address point when
+-- one exists, otherwise a point interpolated along the segment whose block range
+-- contains the number.
+CREATE OR REPLACE FUNCTION gazetteer_geocode_address(p_number INTEGER, p_street TEXT)
+RETURNS TABLE (longitude DOUBLE PRECISION, latitude DOUBLE PRECISION, match_type TEXT)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_street TEXT := normalize_street_name(p_street);
+BEGIN
+  RETURN QUERY
+  SELECT ST_X(p.location::geometry), ST_Y(p.location::geometry), 'address_point'::TEXT
+  FROM gazetteer_address_points p
+  WHERE p.street_name_normalized = v_street
+    AND p.address_number = p_number
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT ST_X(s.point), ST_Y(s.point), 'interpolated'::TEXT
+  FROM (
+    SELECT ST_LineInterpolatePoint(
+      c.geom,
+      CASE
+        WHEN c.address_to = c.address_from THEN 0.5
+        ELSE LEAST(1, GREATEST(0, (p_number - c.address_from)::DOUBLE PRECISION / (c.address_to - c.address_from)))
+      END
+    ) AS point
+    FROM gazetteer_street_centerlines c
+    WHERE c.street_name_normalized = v_street
+      AND c.address_from IS NOT NULL
+      AND c.address_to IS NOT NULL
+      AND p_number BETWEEN LEAST(c.address_from, c.address_to) AND GREATEST(c.address_from, c.address_to)
+    ORDER BY ABS(c.address_to - c.address_from)
+    LIMIT 1
+  ) s;
+END;
+$$;
+
+-- "X & Y": where the two streets' centerlines cross
+CREATE OR REPLACE FUNCTION gazetteer_geocode_intersection(p_street_a TEXT, p_street_b TEXT)
+RETURNS TABLE (longitude DOUBLE PRECISION, latitude DOUBLE PRECISION, match_type TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ST_X(s.point), ST_Y(s.point), 'intersection'::TEXT
+  FROM (
+    SELECT ST_PointOnSurface(ST_Intersection(a.geom, b.geom)) AS point
+    FROM gazetteer_street_centerlines a
+    JOIN gazetteer_street_centerlines b ON ST_Intersects(a.geom, b.geom)
+    WHERE a.street_name_normalized = normalize_street_name(p_street_a)
+      AND b.street_name_normalized = normalize_street_name(p_street_b)
+    LIMIT 1
+  ) s;
+$$;
+
+ALTER TABLE gazetteer_address_points ENABLE ROW LEVEL SECURITY;
+ALTER TABLE gazetteer_street_centerlines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to gazetteer_address_points"
+  ON gazetteer_address_points
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service role full access to gazetteer_street_centerlines"
+  ON gazetteer_street_centerlines
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
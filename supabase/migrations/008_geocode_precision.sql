@@ -0,0 +1,11 @@
+-- How each incident was geocoded: the precision of the match, the geocoder that produced
+-- it and the addressVariants entry that matched. Lets the map distinguish a rooftop hit
+-- from a street-level guess.
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS geocode_precision TEXT
+  CHECK (geocode_precision IN ('rooftop', 'interpolated', 'intersection', 'street', 'none'));
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS geocode_provider TEXT;
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS geocode_variant TEXT;
+
+-- Cached geocodes keep their precision so cache hits report the same confidence
+ALTER TABLE geocode_cache ADD COLUMN IF NOT EXISTS match_precision TEXT
+  CHECK (match_precision IN ('rooftop', 'interpolated', 'intersection', 'street'));
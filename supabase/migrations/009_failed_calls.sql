@@ -0,0 +1,27 @@
+-- Dead-letter queue for Broadcastify calls the worker could not process. The worker
+-- advances worker_state.lastPos before processing, so without this a call that fails
+-- to transcribe, parse, geocode or insert is never seen again. Each cron run retries
+-- due rows with exponential backoff; after too many attempts a row is parked as
+-- "dead" until an admin retries or discards it via /api/admin/failed-calls.
+CREATE TABLE IF NOT EXISTS failed_calls (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  external_id TEXT UNIQUE NOT NULL,
+  call JSONB NOT NULL,
+  stage TEXT NOT NULL CHECK (stage IN ('transcribe', 'parse', 'geocode', 'insert')),
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dead', 'discarded')),
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_failed_calls_due ON failed_calls (status, next_attempt_at);
+
+ALTER TABLE failed_calls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to failed_calls"
+  ON failed_calls
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
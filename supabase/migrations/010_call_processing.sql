@@ -0,0 +1,37 @@
+-- Intermediate output of each pipeline stage, one row per Broadcastify call. The worker
+-- writes the transcript, the parser output and the geocode result as each stage
+-- finishes, so any single stage can be re-run later (rerun-stage edge function) and a
+-- retried call resumes from the first stage that has not completed.
+CREATE TABLE IF NOT EXISTS call_processing (
+  external_id TEXT PRIMARY KEY,
+  call JSONB NOT NULL,
+  call_timestamp TIMESTAMPTZ NOT NULL,
+
+  transcript TEXT,
+  transcription_provider TEXT,
+  transcribe_ms INTEGER,
+  transcribed_at TIMESTAMPTZ,
+
+  -- ParsedDispatchCall as returned by the shared dispatch parser
+  parsed JSONB,
+  parse_ms INTEGER,
+  parsed_at TIMESTAMPTZ,
+
+  -- GeocodeResult, or NULL with geocoded_at set when no provider found the address
+  geocode JSONB,
+  geocode_ms INTEGER,
+  geocoded_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_processing_call_timestamp ON call_processing (call_timestamp DESC);
+
+ALTER TABLE call_processing ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to call_processing"
+  ON call_processing
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
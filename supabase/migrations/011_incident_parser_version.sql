@@ -0,0 +1,7 @@
+-- Which version of the shared dispatch parser (PARSER_VERSION in
+-- supabase/functions/_shared/dispatch-parser.ts) produced each incident's call_type,
+-- units and address. reprocess-incidents uses it to find rows an older parser produced.
+-- Rows created before this migration are left NULL and treated as outdated.
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS parser_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_incidents_parser_version ON incidents (parser_version);
@@ -0,0 +1,76 @@
+-- Lease lock so only one process-calls run works at a time. The cron fires every minute
+-- but a run can take longer, and two runs reading the same lastPos would process the
+-- same calls and overwrite each other's cursor. The lease lives in worker_state under
+-- the 'runLock' key: value is the holder's run id ('' when free) and lease_expires_at
+-- bounds how long a crashed or timed-out run can hold it.
+ALTER TABLE worker_state ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+
+INSERT INTO worker_state (key, value)
+VALUES ('runLock', '')
+ON CONFLICT (key) DO NOTHING;
+
+-- Takes the lock if it is free or its lease has expired. When acquired, holder and
+-- lease_expires_at describe the stale lease that was taken over (NULL if it was free);
+-- when not acquired, they describe the current holder.
+CREATE OR REPLACE FUNCTION acquire_worker_lock(p_holder TEXT, p_ttl_seconds INTEGER)
+RETURNS TABLE (acquired BOOLEAN, holder TEXT, lease_expires_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_holder TEXT;
+  v_expires TIMESTAMPTZ;
+BEGIN
+  INSERT INTO worker_state (key, value)
+  VALUES ('runLock', '')
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT w.value, w.lease_expires_at INTO v_holder, v_expires
+  FROM worker_state w
+  WHERE w.key = 'runLock'
+  FOR UPDATE;
+
+  IF v_holder <> '' AND v_expires > NOW() THEN
+    RETURN QUERY SELECT false, v_holder, v_expires;
+    RETURN;
+  END IF;
+
+  UPDATE worker_state w
+  SET value = p_holder,
+      lease_expires_at = NOW() + make_interval(secs => p_ttl_seconds),
+      updated_at = NOW()
+  WHERE w.key = 'runLock';
+
+  RETURN QUERY SELECT true, NULLIF(v_holder, ''), v_expires;
+END;
+$$;
+
+-- Extends the lease. Returns false if the lock now belongs to another run, in which
+-- case the caller must stop without touching the cursor.
+CREATE OR REPLACE FUNCTION renew_worker_lock(p_holder TEXT, p_ttl_seconds INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE worker_state
+  SET lease_expires_at = NOW() + make_interval(secs => p_ttl_seconds),
+      updated_at = NOW()
+  WHERE key = 'runLock' AND value = p_holder;
+
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_worker_lock(p_holder TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE worker_state
+  SET value = '',
+      lease_expires_at = NULL,
+      updated_at = NOW()
+  WHERE key = 'runLock' AND value = p_holder;
+
+  RETURN FOUND;
+END;
+$$;
@@ -0,0 +1,17 @@
+-- Per-call checkpoint for the worker cursor. process-calls only advances
+-- worker_state.lastPos past a call once its call_processing row exists (or it is in
+-- failed_calls), and marks the row completed when the call is settled. Rows that are
+-- still incomplete when the next run starts were orphaned by a run that died before
+-- inserting their incidents, and are resumed from their stored stage outputs.
+ALTER TABLE call_processing ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+ALTER TABLE call_processing ADD COLUMN IF NOT EXISTS outcome TEXT
+  CHECK (outcome IN ('inserted', 'existing', 'merged', 'dropped', 'dead_lettered'));
+
+-- Rows written before checkpointing existed were all settled by the run that wrote them.
+UPDATE call_processing
+SET completed_at = COALESCE(updated_at, NOW())
+WHERE completed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_call_processing_incomplete
+  ON call_processing (call_timestamp)
+  WHERE completed_at IS NULL;
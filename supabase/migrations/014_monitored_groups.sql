@@ -0,0 +1,42 @@
+-- Broadcastify talkgroups the worker ingests, one row per group with its own cursor.
+-- Add a neighbouring agency by inserting a row; disable one by setting enabled = false.
+-- default_incident_type is used when neither the parser nor the call type says whether
+-- a call is fire, medical or traffic (e.g. 'medical' for an EMS dispatch group).
+CREATE TABLE IF NOT EXISTS monitored_groups (
+  group_id TEXT PRIMARY KEY,
+  agency TEXT NOT NULL,
+  default_incident_type TEXT CHECK (default_incident_type IN ('fire', 'medical', 'traffic')),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Broadcastify position (epoch seconds) of the last call checkpointed for this group.
+  -- 0 means the next run fetches the group's recent calls with init=1.
+  last_pos BIGINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- The group the worker used to ingest, carrying over its cursor from worker_state.
+INSERT INTO monitored_groups (group_id, agency, last_pos)
+VALUES (
+  '2-1147',
+  'Austin Fire Department',
+  COALESCE((SELECT value::BIGINT FROM worker_state WHERE key = 'lastPos'), 0)
+)
+ON CONFLICT (group_id) DO NOTHING;
+
+DELETE FROM worker_state WHERE key = 'lastPos';
+
+-- Agency of the group each incident was heard on
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS agency TEXT;
+
+UPDATE incidents i
+SET agency = g.agency
+FROM monitored_groups g
+WHERE i.agency IS NULL AND i.group_id = g.group_id;
+
+ALTER TABLE monitored_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow service role full access to monitored_groups"
+  ON monitored_groups
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
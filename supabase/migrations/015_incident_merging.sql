@@ -0,0 +1,90 @@
+-- Cross-run incident merging. process-calls used to merge related calls only within a
+-- single run, so a follow-up transmission a minute later ("Engine 3 add Truck 3")
+-- became a second incident. The worker now looks for a recent open incident that the
+-- new call belongs to and updates it instead of inserting.
+
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Existing rows were last written when they were created
+UPDATE incidents SET updated_at = created_at;
+
+CREATE OR REPLACE FUNCTION set_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS incidents_set_updated_at ON incidents;
+CREATE TRIGGER incidents_set_updated_at
+  BEFORE UPDATE ON incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+-- The best open incident for a new call, if any. An incident is open until its
+-- estimated resolution time has passed. It matches when it shares a unit with the call
+-- within p_unit_window_minutes, or lies within p_distance_meters of the call's geocode
+-- or has the same normalized address within p_location_window_minutes. Shared units
+-- rank first, then distance, then recency.
+CREATE OR REPLACE FUNCTION find_matching_incident(
+  p_timestamp TIMESTAMPTZ,
+  p_units TEXT[],
+  p_address TEXT,
+  p_location TEXT,
+  p_unit_window_minutes INTEGER DEFAULT 5,
+  p_location_window_minutes INTEGER DEFAULT 15,
+  p_distance_meters DOUBLE PRECISION DEFAULT 150
+)
+RETURNS TABLE (id UUID, external_id TEXT, match_reason TEXT, distance_meters DOUBLE PRECISION)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT
+      i.id,
+      i.external_id,
+      i.timestamp AS heard_at,
+      cardinality(ARRAY(
+        SELECT unnest(COALESCE(i.units, '{}'::TEXT[]))
+        INTERSECT
+        SELECT unnest(COALESCE(p_units, '{}'::TEXT[]))
+      )) AS shared_units,
+      CASE
+        WHEN p_location IS NOT NULL AND i.location IS NOT NULL
+          THEN ST_Distance(i.location, ST_GeogFromText(p_location))
+      END AS distance,
+      (
+        coalesce(p_address, '?') <> '?' AND i.address <> '?'
+        AND regexp_replace(lower(i.address), '[^a-z0-9]', '', 'g')
+          = regexp_replace(lower(p_address), '[^a-z0-9]', '', 'g')
+      ) AS same_address
+    FROM incidents i
+    WHERE i.timestamp >= p_timestamp - make_interval(mins => GREATEST(p_unit_window_minutes, p_location_window_minutes))
+      AND i.timestamp <= p_timestamp + INTERVAL '2 minutes'
+      AND i.timestamp + make_interval(mins => COALESCE(i.estimated_resolution_minutes, 60)) >= p_timestamp
+  ),
+  matches AS (
+    SELECT
+      c.*,
+      (c.shared_units > 0 AND c.heard_at >= p_timestamp - make_interval(mins => p_unit_window_minutes)) AS unit_match,
+      (c.heard_at >= p_timestamp - make_interval(mins => p_location_window_minutes)
+        AND (c.distance <= p_distance_meters OR c.same_address)) AS place_match
+    FROM candidates c
+  )
+  SELECT
+    m.id,
+    m.external_id,
+    CASE
+      WHEN m.unit_match THEN 'units'
+      WHEN m.distance <= p_distance_meters THEN 'distance'
+      ELSE 'address'
+    END,
+    m.distance
+  FROM matches m
+  WHERE m.unit_match OR m.place_match
+  ORDER BY m.unit_match DESC, m.shared_units DESC, m.distance ASC NULLS LAST, m.heard_at DESC
+  LIMIT 1;
+$$;
@@ -0,0 +1,43 @@
+-- Every Broadcastify call that makes up an incident. The incident row keeps the audio
+-- and transcript of the call that created it; the dispatch, alarm upgrades and unit adds
+-- merged into it afterwards (in the same run or by find_matching_incident) are kept here
+-- so the app can play the whole timeline.
+CREATE TABLE IF NOT EXISTS incident_transmissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  -- Broadcastify call ID; a call belongs to at most one incident
+  external_id TEXT UNIQUE NOT NULL,
+  group_id TEXT NOT NULL,
+  timestamp TIMESTAMPTZ NOT NULL,
+  audio_url TEXT,
+  raw_transcript TEXT,
+  duration INTEGER,
+  -- What this transmission said on its own, before merging into the incident
+  call_type TEXT,
+  units TEXT[] DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_transmissions_incident
+  ON incident_transmissions (incident_id, timestamp);
+
+-- Existing incidents each become a single transmission: the call that created them.
+INSERT INTO incident_transmissions (
+  incident_id, external_id, group_id, timestamp, audio_url, raw_transcript, duration, call_type, units
+)
+SELECT id, external_id, group_id, timestamp, audio_url, raw_transcript, duration, call_type, units
+FROM incidents
+ON CONFLICT (external_id) DO NOTHING;
+
+ALTER TABLE incident_transmissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to incident_transmissions"
+  ON incident_transmissions FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Allow service role full access to incident_transmissions"
+  ON incident_transmissions
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
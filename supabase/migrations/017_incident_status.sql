@@ -0,0 +1,218 @@
+-- Incident lifecycle. Every incident used to be shown as active until its estimated
+-- resolution time ran out. The worker now keeps a status driven by transcript cues
+-- ("working fire", "second alarm", "under control", "returning") and clears incidents
+-- that have gone quiet, recording each change in incident_status_history.
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'dispatched'
+  CHECK (status IN ('dispatched', 'working', 'upgraded', 'under_control', 'cleared'));
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS status_updated_at TIMESTAMPTZ DEFAULT NOW();
+
+UPDATE incidents SET status_updated_at = created_at;
+
+CREATE INDEX IF NOT EXISTS idx_incidents_open ON incidents (timestamp DESC) WHERE status <> 'cleared';
+
+CREATE TABLE IF NOT EXISTS incident_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  status TEXT NOT NULL,
+  previous_status TEXT,
+  -- dispatch: the incident was created; cue: a transmission said so; timeout: went quiet
+  reason TEXT NOT NULL CHECK (reason IN ('dispatch', 'cue', 'timeout')),
+  -- The phrase that triggered a cue change, e.g. 'under control'
+  cue TEXT,
+  -- The transmission (Broadcastify call ID) that carried the cue
+  external_id TEXT,
+  changed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_status_history_incident
+  ON incident_status_history (incident_id, changed_at);
+
+INSERT INTO incident_status_history (incident_id, status, reason, external_id, changed_at)
+SELECT id, 'dispatched', 'dispatch', external_id, created_at
+FROM incidents;
+
+-- Statuses only move forward; cleared is final.
+CREATE OR REPLACE FUNCTION incident_status_rank(p_status TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_status
+    WHEN 'dispatched' THEN 0
+    WHEN 'working' THEN 1
+    WHEN 'upgraded' THEN 2
+    WHEN 'under_control' THEN 3
+    WHEN 'cleared' THEN 4
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_incident_dispatch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO incident_status_history (incident_id, status, reason, external_id)
+  VALUES (NEW.id, NEW.status, 'dispatch', NEW.external_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS incidents_record_dispatch ON incidents;
+CREATE TRIGGER incidents_record_dispatch
+  AFTER INSERT ON incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION record_incident_dispatch();
+
+-- Moves an incident to p_status if that is further along than its current status.
+-- Returns whether the status changed.
+CREATE OR REPLACE FUNCTION advance_incident_status(
+  p_incident_id UUID,
+  p_status TEXT,
+  p_reason TEXT,
+  p_cue TEXT DEFAULT NULL,
+  p_external_id TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_current TEXT;
+BEGIN
+  SELECT status INTO v_current FROM incidents WHERE id = p_incident_id FOR UPDATE;
+
+  IF NOT FOUND OR incident_status_rank(p_status) <= incident_status_rank(v_current) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE incidents
+  SET status = p_status, status_updated_at = NOW()
+  WHERE id = p_incident_id;
+
+  INSERT INTO incident_status_history (incident_id, status, previous_status, reason, cue, external_id)
+  VALUES (p_incident_id, p_status, v_current, p_reason, p_cue, p_external_id);
+
+  RETURN true;
+END;
+$$;
+
+-- Clears open incidents past their estimated resolution time that have had no
+-- transmission or status change for p_quiet_minutes. Returns how many were cleared.
+CREATE OR REPLACE FUNCTION clear_stale_incidents(p_quiet_minutes INTEGER DEFAULT 30)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_id UUID;
+  v_cleared INTEGER := 0;
+BEGIN
+  FOR v_id IN
+    SELECT i.id
+    FROM incidents i
+    WHERE i.status <> 'cleared'
+      AND i.timestamp + make_interval(mins => COALESCE(i.estimated_resolution_minutes, 60)) < NOW()
+      AND COALESCE(i.status_updated_at, i.created_at) < NOW() - make_interval(mins => p_quiet_minutes)
+      AND NOT EXISTS (
+        SELECT 1 FROM incident_transmissions t
+        WHERE t.incident_id = i.id
+          AND t.timestamp >= NOW() - make_interval(mins => p_quiet_minutes)
+      )
+  LOOP
+    IF advance_incident_status(v_id, 'cleared', 'timeout') THEN
+      v_cleared := v_cleared + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_cleared;
+END;
+$$;
+
+-- Same as 015, but cleared incidents never match, and a call carrying a status cue
+-- (p_status_cue) matches an open incident on shared units for up to
+-- p_cue_window_minutes, since "Engine 3 returning" can come an hour after dispatch.
+DROP FUNCTION IF EXISTS find_matching_incident(TIMESTAMPTZ, TEXT[], TEXT, TEXT, INTEGER, INTEGER, DOUBLE PRECISION);
+
+CREATE OR REPLACE FUNCTION find_matching_incident(
+  p_timestamp TIMESTAMPTZ,
+  p_units TEXT[],
+  p_address TEXT,
+  p_location TEXT,
+  p_unit_window_minutes INTEGER DEFAULT 5,
+  p_location_window_minutes INTEGER DEFAULT 15,
+  p_distance_meters DOUBLE PRECISION DEFAULT 150,
+  p_status_cue BOOLEAN DEFAULT false,
+  p_cue_window_minutes INTEGER DEFAULT 240
+)
+RETURNS TABLE (id UUID, external_id TEXT, match_reason TEXT, distance_meters DOUBLE PRECISION)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT
+      i.id,
+      i.external_id,
+      i.timestamp AS heard_at,
+      cardinality(ARRAY(
+        SELECT unnest(COALESCE(i.units, '{}'::TEXT[]))
+        INTERSECT
+        SELECT unnest(COALESCE(p_units, '{}'::TEXT[]))
+      )) AS shared_units,
+      CASE
+        WHEN p_location IS NOT NULL AND i.location IS NOT NULL
+          THEN ST_Distance(i.location, ST_GeogFromText(p_location))
+      END AS distance,
+      (
+        coalesce(p_address, '?') <> '?' AND i.address <> '?'
+        AND regexp_replace(lower(i.address), '[^a-z0-9]', '', 'g')
+          = regexp_replace(lower(p_address), '[^a-z0-9]', '', 'g')
+      ) AS same_address
+    FROM incidents i
+    WHERE i.status <> 'cleared'
+      AND i.timestamp >= p_timestamp - make_interval(mins => GREATEST(
+        p_unit_window_minutes,
+        p_location_window_minutes,
+        CASE WHEN p_status_cue THEN p_cue_window_minutes ELSE 0 END
+      ))
+      AND i.timestamp <= p_timestamp + INTERVAL '2 minutes'
+      AND (
+        p_status_cue
+        OR i.timestamp + make_interval(mins => COALESCE(i.estimated_resolution_minutes, 60)) >= p_timestamp
+      )
+  ),
+  matches AS (
+    SELECT
+      c.*,
+      (c.shared_units > 0 AND (p_status_cue OR c.heard_at >= p_timestamp - make_interval(mins => p_unit_window_minutes))) AS unit_match,
+      (c.heard_at >= p_timestamp - make_interval(mins => p_location_window_minutes)
+        AND (c.distance <= p_distance_meters OR c.same_address)) AS place_match
+    FROM candidates c
+  )
+  SELECT
+    m.id,
+    m.external_id,
+    CASE
+      WHEN m.unit_match THEN 'units'
+      WHEN m.distance <= p_distance_meters THEN 'distance'
+      ELSE 'address'
+    END,
+    m.distance
+  FROM matches m
+  WHERE m.unit_match OR m.place_match
+  ORDER BY m.unit_match DESC, m.shared_units DESC, m.distance ASC NULLS LAST, m.heard_at DESC
+  LIMIT 1;
+$$;
+
+-- Incidents already past their estimate start out cleared.
+SELECT clear_stale_incidents();
+
+ALTER TABLE incident_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to incident_status_history"
+  ON incident_status_history FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Allow service role full access to incident_status_history"
+  ON incident_status_history
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,76 @@
+-- Alarm level (1-5) as an incident field, and an escalation event whenever a later
+-- transmission raises it ("upgrade to a second alarm"). A box alarm is a first alarm.
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS alarm_level SMALLINT CHECK (alarm_level BETWEEN 1 AND 5);
+
+-- Existing incidents take the level named in their own transcript.
+UPDATE incidents
+SET alarm_level = CASE
+  WHEN raw_transcript ~* '\m(fifth|5th)\s+alarm\M' THEN 5
+  WHEN raw_transcript ~* '\m(fourth|4th)\s+alarm\M' THEN 4
+  WHEN raw_transcript ~* '\m(third|3rd)\s+alarm\M' THEN 3
+  WHEN raw_transcript ~* '\m(second|2nd)\s+alarm\M' THEN 2
+  WHEN raw_transcript ~* '\m(first|1st|box)\s+alarm\M' THEN 1
+END
+WHERE raw_transcript IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_incidents_alarm_level ON incidents (alarm_level) WHERE alarm_level IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS incident_escalations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  -- NULL when the incident had no alarm level before (e.g. a structure fire assignment)
+  from_level SMALLINT,
+  to_level SMALLINT NOT NULL,
+  -- The transmission (Broadcastify call ID) that announced the new level
+  external_id TEXT,
+  escalated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_escalations_incident
+  ON incident_escalations (incident_id, escalated_at);
+
+-- Raises an incident's alarm level and records the escalation. Returns the change, or
+-- no row when the incident is already at or above p_level.
+CREATE OR REPLACE FUNCTION escalate_incident_alarm(
+  p_incident_id UUID,
+  p_level SMALLINT,
+  p_external_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (from_level SMALLINT, to_level SMALLINT)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_current SMALLINT;
+BEGIN
+  SELECT i.alarm_level INTO v_current FROM incidents i WHERE i.id = p_incident_id FOR UPDATE;
+
+  IF NOT FOUND OR p_level <= COALESCE(v_current, 0) THEN
+    RETURN;
+  END IF;
+
+  UPDATE incidents SET alarm_level = p_level WHERE id = p_incident_id;
+
+  INSERT INTO incident_escalations (incident_id, from_level, to_level, external_id)
+  VALUES (p_incident_id, v_current, p_level, p_external_id);
+
+  from_level := v_current;
+  to_level := p_level;
+  RETURN NEXT;
+END;
+$$;
+
+-- Escalation push notifications are opt-in per subscription.
+ALTER TABLE push_subscriptions ADD COLUMN IF NOT EXISTS notify_escalations BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE incident_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to incident_escalations"
+  ON incident_escalations FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Allow service role full access to incident_escalations"
+  ON incident_escalations
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
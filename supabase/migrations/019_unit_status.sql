@@ -0,0 +1,218 @@
+-- Unit status. Units used to be plain strings on incidents, and the client guessed that
+-- a unit belonged to the newest incident naming it. The worker now registers every unit it
+-- hears in `units` and commits it to an incident in `unit_assignments` from that incident's
+-- transmissions. A unit is released when it is heard on a newer incident, or when its
+-- incident is cleared.
+
+-- Splits a parsed unit ("Engine 3", "Medic 1201", "SR20") into its type and home station.
+-- Numbers under 100 are AFD stations (FS0003); three- and four-digit numbers carry their
+-- ESD in the leading digits (Engine 1201 is ESD 12, Station 1201). Only apparatus types
+-- housed at a station get one.
+CREATE OR REPLACE FUNCTION describe_unit(p_unit_id TEXT)
+RETURNS TABLE (type TEXT, home_station TEXT, esd SMALLINT)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_number INTEGER;
+BEGIN
+  type := initcap(trim(substring(p_unit_id FROM '^\s*([A-Za-z][A-Za-z ]*?)\s*\d')));
+  IF upper(type) IN ('ARFF', 'SR', 'FTO') THEN
+    type := upper(type);
+  END IF;
+  type := COALESCE(type, p_unit_id);
+
+  v_number := substring(p_unit_id FROM '(\d+)\s*$')::INTEGER;
+
+  IF v_number >= 100 AND type NOT IN ('ARFF', 'Battalion', 'SR') THEN
+    esd := v_number / 100;
+  END IF;
+
+  IF type IN ('Engine', 'Truck', 'Ladder', 'Quint', 'Medic', 'Rescue', 'Squad', 'Brush', 'Tanker') THEN
+    home_station := CASE
+      WHEN v_number < 100 THEN 'FS' || lpad(v_number::TEXT, 4, '0')
+      WHEN esd = 6 THEN 'LTFR' || v_number
+      WHEN esd = 9 THEN 'WFD' || v_number
+      WHEN esd = 11 THEN 'TCFR' || v_number
+      WHEN esd = 12 THEN 'ESD12-' || v_number
+    END;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS units (
+  -- The unit as the parser names it, e.g. 'Engine 3'
+  unit_id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  -- FIRE_STATIONS id in src/lib/fire-stations.ts, e.g. 'FS0003'
+  home_station TEXT,
+  esd SMALLINT,
+  first_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_units_home_station ON units (home_station) WHERE home_station IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS unit_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  unit_id TEXT NOT NULL REFERENCES units(unit_id) ON DELETE CASCADE,
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  -- The transmission (Broadcastify call ID) that put the unit on the incident
+  external_id TEXT,
+  assigned_at TIMESTAMPTZ NOT NULL,
+  released_at TIMESTAMPTZ,
+  -- reassigned: heard on a newer incident; cleared: its incident was cleared
+  release_reason TEXT CHECK (release_reason IN ('reassigned', 'cleared'))
+);
+
+-- A unit is committed to at most one incident at a time.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_unit_assignments_current
+  ON unit_assignments (unit_id) WHERE released_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_unit_assignments_incident ON unit_assignments (incident_id);
+
+-- Registers p_units and commits each to the incident, releasing the unit from the
+-- incident it was on. A unit already committed to a later transmission elsewhere stays
+-- where it is, and cleared incidents take no units. Returns how many units were assigned.
+CREATE OR REPLACE FUNCTION assign_incident_units(
+  p_incident_id UUID,
+  p_units TEXT[],
+  p_assigned_at TIMESTAMPTZ,
+  p_external_id TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_unit TEXT;
+  v_current unit_assignments%ROWTYPE;
+  v_assigned INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM incidents WHERE id = p_incident_id AND status <> 'cleared') THEN
+    RETURN 0;
+  END IF;
+
+  FOREACH v_unit IN ARRAY COALESCE(p_units, '{}'::TEXT[]) LOOP
+    INSERT INTO units (unit_id, type, home_station, esd, first_seen_at, last_seen_at)
+    SELECT v_unit, d.type, d.home_station, d.esd, p_assigned_at, p_assigned_at
+    FROM describe_unit(v_unit) d
+    ON CONFLICT (unit_id) DO UPDATE
+      SET last_seen_at = GREATEST(units.last_seen_at, EXCLUDED.last_seen_at);
+
+    SELECT * INTO v_current
+    FROM unit_assignments
+    WHERE unit_id = v_unit AND released_at IS NULL
+    FOR UPDATE;
+
+    IF FOUND AND (v_current.incident_id = p_incident_id OR v_current.assigned_at > p_assigned_at) THEN
+      CONTINUE;
+    END IF;
+
+    IF FOUND THEN
+      UPDATE unit_assignments
+      SET released_at = p_assigned_at, release_reason = 'reassigned'
+      WHERE id = v_current.id;
+    END IF;
+
+    INSERT INTO unit_assignments (unit_id, incident_id, external_id, assigned_at)
+    VALUES (v_unit, p_incident_id, p_external_id, p_assigned_at);
+    v_assigned := v_assigned + 1;
+  END LOOP;
+
+  RETURN v_assigned;
+END;
+$$;
+
+-- Clearing an incident, by cue or by timeout, frees its units.
+CREATE OR REPLACE FUNCTION release_cleared_incident_units()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE unit_assignments
+  SET released_at = COALESCE(NEW.status_updated_at, NOW()), release_reason = 'cleared'
+  WHERE incident_id = NEW.id AND released_at IS NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS incidents_release_cleared_units ON incidents;
+CREATE TRIGGER incidents_release_cleared_units
+  AFTER UPDATE OF status ON incidents
+  FOR EACH ROW
+  WHEN (NEW.status = 'cleared' AND OLD.status IS DISTINCT FROM 'cleared')
+  EXECUTE FUNCTION release_cleared_incident_units();
+
+-- Every known unit with its current assignment, if any.
+CREATE OR REPLACE VIEW unit_status
+WITH (security_invoker = true)
+AS
+SELECT
+  u.unit_id,
+  u.type,
+  u.home_station,
+  u.esd,
+  u.last_seen_at,
+  i.external_id AS incident_external_id,
+  i.call_type AS incident_call_type,
+  i.address AS incident_address,
+  i.status AS incident_status,
+  a.assigned_at AS committed_since
+FROM units u
+LEFT JOIN unit_assignments a ON a.unit_id = u.unit_id AND a.released_at IS NULL
+LEFT JOIN incidents i ON i.id = a.incident_id;
+
+-- Register every unit named on an existing incident...
+INSERT INTO units (unit_id, type, home_station, esd, first_seen_at, last_seen_at)
+SELECT seen.unit_id, d.type, d.home_station, d.esd, seen.first_seen_at, seen.last_seen_at
+FROM (
+  SELECT unit AS unit_id, MIN(i.timestamp) AS first_seen_at, MAX(i.timestamp) AS last_seen_at
+  FROM incidents i, unnest(i.units) AS unit
+  WHERE trim(unit) <> ''
+  GROUP BY unit
+) seen
+CROSS JOIN LATERAL describe_unit(seen.unit_id) d
+ON CONFLICT (unit_id) DO NOTHING;
+
+-- ...and replay the transmissions of open incidents, oldest first, to commit their units.
+DO $$
+DECLARE
+  t RECORD;
+BEGIN
+  FOR t IN
+    SELECT tr.incident_id, tr.units, tr.timestamp, tr.external_id
+    FROM incident_transmissions tr
+    JOIN incidents i ON i.id = tr.incident_id
+    WHERE i.status <> 'cleared' AND cardinality(tr.units) > 0
+    ORDER BY tr.timestamp
+  LOOP
+    PERFORM assign_incident_units(t.incident_id, t.units, t.timestamp, t.external_id);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE units ENABLE ROW LEVEL SECURITY;
+ALTER TABLE unit_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to units"
+  ON units FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Allow service role full access to units"
+  ON units
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public read access to unit_assignments"
+  ON unit_assignments FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Allow service role full access to unit_assignments"
+  ON unit_assignments
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,157 @@
+-- Canonical unit names. The same apparatus was stored as "E3", "Eng 3" and "Engine 3",
+-- so stats, unit filters and push subscriptions each saw several units. The worker now
+-- stores "<Type> <number>" (normalizeUnit in _shared/unit-names.ts); this migration
+-- rewrites existing rows the same way.
+
+-- Mirrors normalizeUnit() and its UNIT_PATTERNS. Units that aren't a numbered apparatus
+-- ("Safety Officer") come back trimmed.
+CREATE OR REPLACE FUNCTION normalize_unit(p_unit TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_cleaned TEXT;
+  v_match TEXT[];
+BEGIN
+  v_cleaned := regexp_replace(trim(p_unit), '(\d+)-(\d+)', '\1\2', 'g');
+  v_cleaned := regexp_replace(v_cleaned, '^([A-Za-z]+)\s*-\s*(\d)', '\1 \2');
+
+  v_match := regexp_match(
+    v_cleaned,
+    '^(engine|eng|e|ladder|lad|l|truck|trk|medic|med|m|ambulance|amb|a|battalion|bat|bc|b|squad|sq|rescue|res|r|tanker|tan|brush|br|quint|quinn|arff|arv|sr)\s*(\d+)$',
+    'i'
+  );
+
+  IF v_match IS NULL THEN
+    RETURN v_cleaned;
+  END IF;
+
+  RETURN CASE lower(v_match[1])
+    WHEN 'engine' THEN 'Engine' WHEN 'eng' THEN 'Engine' WHEN 'e' THEN 'Engine'
+    WHEN 'ladder' THEN 'Ladder' WHEN 'lad' THEN 'Ladder' WHEN 'l' THEN 'Ladder'
+    WHEN 'truck' THEN 'Truck' WHEN 'trk' THEN 'Truck'
+    WHEN 'medic' THEN 'Medic' WHEN 'med' THEN 'Medic' WHEN 'm' THEN 'Medic'
+    WHEN 'ambulance' THEN 'Ambulance' WHEN 'amb' THEN 'Ambulance' WHEN 'a' THEN 'Ambulance'
+    WHEN 'battalion' THEN 'Battalion' WHEN 'bat' THEN 'Battalion' WHEN 'bc' THEN 'Battalion' WHEN 'b' THEN 'Battalion'
+    WHEN 'squad' THEN 'Squad' WHEN 'sq' THEN 'Squad'
+    WHEN 'rescue' THEN 'Rescue' WHEN 'res' THEN 'Rescue' WHEN 'r' THEN 'Rescue'
+    WHEN 'tanker' THEN 'Tanker' WHEN 'tan' THEN 'Tanker'
+    WHEN 'brush' THEN 'Brush' WHEN 'br' THEN 'Brush'
+    WHEN 'quint' THEN 'Quint' WHEN 'quinn' THEN 'Quint'
+    WHEN 'arff' THEN 'ARFF' WHEN 'arv' THEN 'ARFF'
+    WHEN 'sr' THEN 'SR'
+  END || ' ' || (v_match[2]::NUMERIC)::TEXT;
+END;
+$$;
+
+-- normalize_unit over an array, first occurrence kept, empty entries dropped.
+CREATE OR REPLACE FUNCTION normalize_units(p_units TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(n.unit ORDER BY n.first_idx), '{}'::TEXT[])
+  FROM (
+    SELECT normalize_unit(u.unit) AS unit, MIN(u.idx) AS first_idx
+    FROM unnest(p_units) WITH ORDINALITY AS u(unit, idx)
+    WHERE normalize_unit(u.unit) <> ''
+    GROUP BY normalize_unit(u.unit)
+  ) n;
+$$;
+
+UPDATE incidents
+SET units = normalize_units(units)
+WHERE units IS NOT NULL AND units IS DISTINCT FROM normalize_units(units);
+
+UPDATE incident_transmissions
+SET units = normalize_units(units)
+WHERE units IS NOT NULL AND units IS DISTINCT FROM normalize_units(units);
+
+UPDATE push_subscriptions
+SET notify_units = normalize_units(notify_units)
+WHERE notify_units IS NOT NULL AND notify_units IS DISTINCT FROM normalize_units(notify_units);
+
+-- Fold spelling variants in the units registry into their canonical unit.
+INSERT INTO units (unit_id, type, home_station, esd, first_seen_at, last_seen_at)
+SELECT v.unit_id, d.type, d.home_station, d.esd, v.first_seen_at, v.last_seen_at
+FROM (
+  SELECT normalize_unit(unit_id) AS unit_id, MIN(first_seen_at) AS first_seen_at, MAX(last_seen_at) AS last_seen_at
+  FROM units
+  GROUP BY normalize_unit(unit_id)
+) v
+CROSS JOIN LATERAL describe_unit(v.unit_id) d
+ON CONFLICT (unit_id) DO UPDATE
+  SET first_seen_at = LEAST(units.first_seen_at, EXCLUDED.first_seen_at),
+      last_seen_at = GREATEST(units.last_seen_at, EXCLUDED.last_seen_at);
+
+-- Where several variants of one unit are committed, the latest assignment stands.
+WITH ranked AS (
+  SELECT
+    id,
+    FIRST_VALUE(assigned_at) OVER w AS latest_assigned_at,
+    ROW_NUMBER() OVER w AS variant_rank
+  FROM unit_assignments
+  WHERE released_at IS NULL
+  WINDOW w AS (PARTITION BY normalize_unit(unit_id) ORDER BY assigned_at DESC)
+)
+UPDATE unit_assignments a
+SET released_at = r.latest_assigned_at, release_reason = 'reassigned'
+FROM ranked r
+WHERE a.id = r.id AND r.variant_rank > 1;
+
+UPDATE unit_assignments
+SET unit_id = normalize_unit(unit_id)
+WHERE unit_id <> normalize_unit(unit_id);
+
+DELETE FROM units WHERE unit_id <> normalize_unit(unit_id);
+
+-- Same as 019, with incoming units normalized.
+CREATE OR REPLACE FUNCTION assign_incident_units(
+  p_incident_id UUID,
+  p_units TEXT[],
+  p_assigned_at TIMESTAMPTZ,
+  p_external_id TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_unit TEXT;
+  v_current unit_assignments%ROWTYPE;
+  v_assigned INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM incidents WHERE id = p_incident_id AND status <> 'cleared') THEN
+    RETURN 0;
+  END IF;
+
+  FOREACH v_unit IN ARRAY normalize_units(COALESCE(p_units, '{}'::TEXT[])) LOOP
+    INSERT INTO units (unit_id, type, home_station, esd, first_seen_at, last_seen_at)
+    SELECT v_unit, d.type, d.home_station, d.esd, p_assigned_at, p_assigned_at
+    FROM describe_unit(v_unit) d
+    ON CONFLICT (unit_id) DO UPDATE
+      SET last_seen_at = GREATEST(units.last_seen_at, EXCLUDED.last_seen_at);
+
+    SELECT * INTO v_current
+    FROM unit_assignments
+    WHERE unit_id = v_unit AND released_at IS NULL
+    FOR UPDATE;
+
+    IF FOUND AND (v_current.incident_id = p_incident_id OR v_current.assigned_at > p_assigned_at) THEN
+      CONTINUE;
+    END IF;
+
+    IF FOUND THEN
+      UPDATE unit_assignments
+      SET released_at = p_assigned_at, release_reason = 'reassigned'
+      WHERE id = v_current.id;
+    END IF;
+
+    INSERT INTO unit_assignments (unit_id, incident_id, external_id, assigned_at)
+    VALUES (v_unit, p_incident_id, p_external_id, p_assigned_at);
+    v_assigned := v_assigned + 1;
+  END LOOP;
+
+  RETURN v_assigned;
+END;
+$$;
@@ -0,0 +1,69 @@
+-- Change sequence for incidents. Every insert and update takes the next number from
+-- incident_change_seq, and deletes leave a tombstone in incident_deletions with one too,
+-- so a client that has applied changes up to N can see from the next event it receives
+-- whether it missed any, and fetch just the changes after N.
+
+CREATE SEQUENCE IF NOT EXISTS incident_change_seq;
+
+-- Existing rows are numbered as the column is added
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS change_seq BIGINT NOT NULL DEFAULT nextval('incident_change_seq');
+
+CREATE INDEX IF NOT EXISTS idx_incidents_change_seq ON incidents (change_seq);
+
+CREATE OR REPLACE FUNCTION set_incident_change_seq()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.change_seq := nextval('incident_change_seq');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS incidents_set_change_seq ON incidents;
+CREATE TRIGGER incidents_set_change_seq
+  BEFORE UPDATE ON incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION set_incident_change_seq();
+
+-- Realtime DELETE payloads only carry the primary key under RLS, and no change_seq, so
+-- clients follow deletes through these rows instead.
+CREATE TABLE IF NOT EXISTS incident_deletions (
+  incident_id UUID PRIMARY KEY,
+  external_id TEXT,
+  change_seq BIGINT NOT NULL DEFAULT nextval('incident_change_seq'),
+  deleted_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_deletions_change_seq ON incident_deletions (change_seq);
+
+CREATE OR REPLACE FUNCTION record_incident_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO incident_deletions (incident_id, external_id)
+  VALUES (OLD.id, OLD.external_id)
+  ON CONFLICT (incident_id) DO NOTHING;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS incidents_record_deletion ON incidents;
+CREATE TRIGGER incidents_record_deletion
+  AFTER DELETE ON incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION record_incident_deletion();
+
+ALTER TABLE incident_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to incident_deletions"
+  ON incident_deletions FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Allow service role full access to incident_deletions"
+  ON incident_deletions
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,28 @@
+-- Delta sync for the incident list. The app used to download the newest 1000 incidents
+-- every minute; now it asks only for incidents created, updated or deleted since the
+-- high-water marks of its last sync, and downloads everything only when it has no usable
+-- marks or schema_version below has changed.
+
+CREATE INDEX IF NOT EXISTS idx_incidents_updated_at ON incidents (updated_at);
+CREATE INDEX IF NOT EXISTS idx_incident_deletions_deleted_at ON incident_deletions (deleted_at);
+
+-- Bump schema_version when incidents change shape in a way cached copies can't be patched
+-- across, e.g. a backfill that rewrites rows without touching updated_at.
+CREATE OR REPLACE FUNCTION incident_sync_marks()
+RETURNS TABLE(
+  schema_version INTEGER,
+  change_seq BIGINT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    1,
+    GREATEST((SELECT MAX(i.change_seq) FROM incidents i), (SELECT MAX(d.change_seq) FROM incident_deletions d)),
+    (SELECT MAX(i.created_at) FROM incidents i),
+    (SELECT MAX(i.updated_at) FROM incidents i),
+    (SELECT MAX(d.deleted_at) FROM incident_deletions d);
+$$;
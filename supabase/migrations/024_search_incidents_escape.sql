@@ -0,0 +1,69 @@
+-- search_incidents matched the search text as a LIKE pattern, so "%" or "_" in it acted as
+-- wildcards. It is now matched literally, on the same fields the incident list searches:
+-- call type, address, agency (AFD when unset) and lifecycle status.
+
+-- p_status: ALL, ACTIVE (not cleared), ARCHIVED (cleared) or a lifecycle status.
+-- p_days_of_week: 0 = Sunday, in p_time_zone. The bounding box is in degrees (WGS 84).
+-- Pass the last row of a page as p_before_timestamp/p_before_id to get the next page.
+CREATE OR REPLACE FUNCTION search_incidents(
+  p_start TIMESTAMPTZ DEFAULT NULL,
+  p_end TIMESTAMPTZ DEFAULT NULL,
+  p_status TEXT DEFAULT 'ALL',
+  p_search TEXT DEFAULT NULL,
+  p_agency TEXT DEFAULT NULL,
+  p_units TEXT[] DEFAULT NULL,
+  p_incident_types TEXT[] DEFAULT NULL,
+  p_days_of_week INTEGER[] DEFAULT NULL,
+  p_staging_only BOOLEAN DEFAULT false,
+  p_min_lng DOUBLE PRECISION DEFAULT NULL,
+  p_min_lat DOUBLE PRECISION DEFAULT NULL,
+  p_max_lng DOUBLE PRECISION DEFAULT NULL,
+  p_max_lat DOUBLE PRECISION DEFAULT NULL,
+  p_time_zone TEXT DEFAULT 'America/Chicago',
+  p_before_timestamp TIMESTAMPTZ DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 200
+)
+RETURNS SETOF incidents
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT i.*
+  FROM incidents i,
+    -- The search text matched literally, with LIKE's wildcards and escape character escaped
+    (SELECT '%' || replace(replace(replace(p_search, '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern) q
+  WHERE (p_start IS NULL OR i.timestamp >= p_start)
+    AND (p_end IS NULL OR i.timestamp <= p_end)
+    AND (
+      p_status IS NULL OR p_status = 'ALL'
+      OR (p_status = 'ACTIVE' AND i.status IS DISTINCT FROM 'cleared')
+      OR (p_status = 'ARCHIVED' AND i.status = 'cleared')
+      OR i.status = p_status
+    )
+    AND (
+      coalesce(p_search, '') = ''
+      OR i.call_type ILIKE q.pattern
+      OR i.address ILIKE q.pattern
+      OR COALESCE(i.agency, 'Austin Fire Department') ILIKE q.pattern
+      OR replace(i.status, '_', ' ') ILIKE q.pattern
+    )
+    -- Incidents without an agency are shown as AFD's
+    AND (p_agency IS NULL OR COALESCE(i.agency, 'Austin Fire Department') = p_agency)
+    AND (cardinality(p_units) IS NULL OR cardinality(p_units) = 0 OR i.units && normalize_units(p_units))
+    AND (cardinality(p_incident_types) IS NULL OR cardinality(p_incident_types) = 0 OR i.incident_type = ANY (p_incident_types))
+    AND (
+      cardinality(p_days_of_week) IS NULL OR cardinality(p_days_of_week) = 0
+      OR EXTRACT(DOW FROM i.timestamp AT TIME ZONE p_time_zone)::INTEGER = ANY (p_days_of_week)
+    )
+    AND (NOT p_staging_only OR i.raw_transcript ILIKE '%check for possible staging instructions%')
+    AND (
+      p_min_lng IS NULL OR p_min_lat IS NULL OR p_max_lng IS NULL OR p_max_lat IS NULL
+      OR ST_Intersects(i.location::geometry, ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326))
+    )
+    AND (
+      p_before_timestamp IS NULL
+      OR (i.timestamp, i.id) < (p_before_timestamp, COALESCE(p_before_id, 'ffffffff-ffff-ffff-ffff-ffffffffffff'::UUID))
+    )
+  ORDER BY i.timestamp DESC, i.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 200), 1), 1000);
+$$;